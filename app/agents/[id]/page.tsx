@@ -1,128 +1,283 @@
-import { getAgentBySessionKey } from '@/lib/agents';
-import { getBoardData, Task } from '@/lib/tasks';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
+import { getAgentProfile } from '@/lib/agent-profile';
+import { isHeartbeatStale } from '@/lib/heartbeat';
+import { describeSchedule } from '@/lib/schedule';
+import { AgentTokenManager } from '@/components/AgentTokenManager';
 
-export default async function AgentDetailPage({ params }: { params: { id: string } }) {
-  const sessionKey = decodeURIComponent(params.id);
-  const agent = await getAgentBySessionKey(sessionKey);
+// Heartbeats and reports change every few minutes; always read fresh
+export const dynamic = 'force-dynamic';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const statusColors: Record<string, string> = {
+  working: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  idle: 'bg-zinc-800 text-zinc-400 border-zinc-700',
+  offline: 'bg-red-500/10 text-red-400 border-red-500/20',
+  error: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+const taskStatusColors: Record<string, string> = {
+  backlog: 'bg-zinc-800 text-zinc-400',
+  todo: 'bg-zinc-800 text-zinc-300',
+  in_progress: 'bg-amber-500/10 text-amber-400',
+  blocked: 'bg-red-500/10 text-red-400',
+  done: 'bg-emerald-500/10 text-emerald-400',
+};
 
-  if (!agent) {
+const runStatusColors: Record<string, string> = {
+  ok: 'text-emerald-400',
+  error: 'text-red-400',
+  timeout: 'text-red-400',
+  running: 'text-amber-400',
+  pending: 'text-zinc-500',
+};
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    dateStyle: 'short',
+    timeStyle: 'short'
+  });
+}
+
+export default async function AgentDetailPage({ params }: { params: { id: string } }) {
+  if (!UUID_PATTERN.test(params.id)) {
     notFound();
   }
 
-  const boardData = await getBoardData();
-  const allTasks = [
-    ...boardData.backlog,
-    ...boardData.inProgress,
-    ...boardData.done
-  ];
-
-  // Filter tasks for this agent
-  // Owner field might be "@Role" or "Name" or "Name (Role)"
-  // We'll try to match loosely
-  const agentTasks = allTasks.filter(task => {
-    if (!task.owner) return false;
-    const owner = task.owner.toLowerCase();
-    const role = agent.role.toLowerCase();
-    const name = agent.name.toLowerCase();
-    
-    return owner.includes(role) || owner.includes(name) || owner.includes(agent.sessionKey);
-  });
+  const profile = await getAgentProfile(params.id);
+  if (!profile) {
+    notFound();
+  }
 
-  const activeTasks = agentTasks.filter(t => t.status === 'backlog' || t.status === 'in_progress');
-  const completedTasks = agentTasks.filter(t => t.status === 'done');
+  const { agent, heartbeats, tasks, reports, cronJobs, runStats } = profile;
+  const latest = heartbeats[0];
+  const stale = isHeartbeatStale(agent.last_heartbeat);
+  const openTasks = tasks.filter(t => t.status !== 'done');
+  const doneTasks = tasks.filter(t => t.status === 'done');
 
   return (
-    <div className="min-h-screen bg-gray-900 text-gray-100 p-8">
-      <div className="max-w-4xl mx-auto">
-        <div className="mb-8 flex items-center gap-4">
-          <Link href="/agents" className="text-blue-400 hover:underline">
-            ← Back to Agents
-          </Link>
-        </div>
+    <div className="bg-zinc-950 text-zinc-100 font-sans p-8 min-h-[calc(100vh-64px)]">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Link
+          href="/agents"
+          className="inline-flex items-center gap-2 text-zinc-500 hover:text-zinc-300 text-sm transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Voltar para Agents
+        </Link>
 
-        <div className="bg-gray-800 rounded-lg shadow-xl p-8 mb-8 border border-gray-700">
-          <div className="flex justify-between items-start mb-6">
+        {/* Profile */}
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+          <div className="flex justify-between items-start gap-4 mb-6">
             <div>
-              <h1 className="text-3xl font-bold text-white mb-2">{agent.name}</h1>
-              <p className="text-xl text-blue-400">{agent.role}</p>
+              <h1 className="text-2xl font-bold tracking-tight text-white">{agent.name}</h1>
+              {agent.role && <p className="text-zinc-400 mt-1">{agent.role}</p>}
             </div>
-            <span className={`px-4 py-2 rounded-full text-sm font-semibold ${
-              agent.status === 'Ativo' ? 'bg-green-900 text-green-200' : 'bg-gray-700 text-gray-300'
-            }`}>
-              {agent.status}
-            </span>
+            <div className="flex items-center gap-2">
+              {agent.retired_at && (
+                <span className="px-2.5 py-0.5 rounded-full text-xs font-medium border bg-red-500/10 text-red-400 border-red-500/20">
+                  retired {formatDate(agent.retired_at)}
+                </span>
+              )}
+              <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium border ${statusColors[agent.status] || statusColors.idle}`}>
+                {agent.status}
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <Stat label="Last heartbeat" value={formatDate(agent.last_heartbeat)} warn={stale} />
+            <Stat label="Open tasks" value={openTasks.length.toString()} />
+            <Stat
+              label={`Run success (${runStats.windowDays}d)`}
+              value={runStats.successRate === null ? '—' : `${Math.round(runStats.successRate * 100)}%`}
+              sub={runStats.total > 0 ? `${runStats.ok}/${runStats.total} runs ok` : 'No finished runs'}
+              warn={runStats.successRate !== null && runStats.successRate < 0.8}
+            />
+            <Stat label="Agent ID" value={`${agent.id.slice(0, 8)}…`} mono />
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
             <div>
-              <h3 className="text-sm font-uppercase text-gray-500 mb-2">Session Key</h3>
-              <code className="bg-gray-950 px-3 py-1 rounded text-sm font-mono text-purple-300">
-                {agent.sessionKey}
-              </code>
+              <p className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">Capabilities</p>
+              {agent.capabilities && agent.capabilities.length > 0 ? (
+                <div className="flex gap-1 flex-wrap">
+                  {agent.capabilities.map(cap => (
+                    <span key={cap} className="text-xs px-1.5 py-0.5 bg-zinc-800 text-zinc-400 rounded">{cap}</span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-zinc-600 italic">None</p>
+              )}
             </div>
-            
             <div>
-              <h3 className="text-sm font-uppercase text-gray-500 mb-2">Description</h3>
-              <p className="text-gray-300 leading-relaxed">
-                {agent.description}
-              </p>
+              <p className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">Memory path</p>
+              <code className="text-xs text-purple-300 font-mono">{agent.memory_path || '—'}</code>
             </div>
           </div>
+
+          {latest && (latest.status_text || latest.progress !== null) && (
+            <div className="mt-6 bg-zinc-950/50 border border-zinc-800 rounded-lg p-3">
+              <p className="text-xs text-zinc-400">{latest.status_text || 'Working'}</p>
+              {latest.progress !== null && (
+                <div className="mt-2 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500" style={{ width: `${latest.progress}%` }}></div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
-            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
-              <span className="w-3 h-3 rounded-full bg-yellow-500"></span>
-              Active Tasks
-            </h2>
-            {activeTasks.length === 0 ? (
-              <p className="text-gray-500 italic">No active tasks found.</p>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Tasks */}
+          <Section title="Tasks" count={tasks.length}>
+            {tasks.length === 0 ? (
+              <Empty>No tasks assigned</Empty>
+            ) : (
+              <ul className="divide-y divide-zinc-800">
+                {[...openTasks, ...doneTasks].map(task => (
+                  <li key={task.id} className="py-2 flex items-center justify-between gap-3">
+                    <Link href={`/tasks/${task.id}`} className={`text-sm truncate hover:text-white ${task.status === 'done' ? 'text-zinc-500 line-through' : 'text-zinc-200'}`}>
+                      {task.title}
+                    </Link>
+                    <span className={`shrink-0 text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${taskStatusColors[task.status] || ''}`}>
+                      {task.status.replace(/_/g, ' ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+
+          {/* Heartbeat history */}
+          <Section title="Heartbeats" count={heartbeats.length}>
+            {heartbeats.length === 0 ? (
+              <Empty>No heartbeats recorded</Empty>
             ) : (
-              <ul className="space-y-4">
-                {activeTasks.map((task, idx) => (
-                  <li key={idx} className="bg-gray-750 p-4 rounded border border-gray-600">
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold text-white">{task.title}</span>
-                      <span className="text-xs px-2 py-1 rounded bg-blue-900 text-blue-200">
-                        {task.status}
+              <ul className="divide-y divide-zinc-800 max-h-96 overflow-y-auto">
+                {heartbeats.map(beat => (
+                  <li key={beat.id} className="py-2 flex items-center justify-between gap-3 text-xs">
+                    <span className="text-zinc-500 shrink-0">{formatDate(beat.created_at)}</span>
+                    <span className="text-zinc-300 truncate flex-1">{beat.status_text || '—'}</span>
+                    {beat.progress !== null && <span className="text-zinc-400 shrink-0">{beat.progress}%</span>}
+                    {beat.tokens_used !== null && (
+                      <span className="text-zinc-600 shrink-0">{beat.tokens_used.toLocaleString('pt-BR')} tok</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+
+          {/* Reports */}
+          <Section
+            title="Reports"
+            count={reports.length}
+            action={
+              <Link href={`/agents/memory?agentId=${agent.id}`} className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors">
+                Browse memory →
+              </Link>
+            }
+          >
+            {reports.length === 0 ? (
+              <Empty>No reports yet</Empty>
+            ) : (
+              <ul className="space-y-3 max-h-[32rem] overflow-y-auto">
+                {reports.map(report => (
+                  <li key={report.id} className="bg-zinc-950/50 border border-zinc-800 rounded-lg p-3">
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="text-zinc-500">{formatDate(report.created_at)}</span>
+                      <span className="text-zinc-600">
+                        {report.tasksCompleted.length} done · {report.tasksStarted.length} started
                       </span>
                     </div>
-                    {task.description && (
-                      <p className="text-sm text-gray-400 mb-2">{task.description}</p>
+                    <p className="text-sm text-zinc-300">{report.summary || <span className="italic text-zinc-600">No summary</span>}</p>
+                    {report.findings.length > 0 && (
+                      <ul className="mt-2 text-xs text-zinc-400 list-disc list-inside">
+                        {report.findings.map((finding, idx) => <li key={idx}>{finding}</li>)}
+                      </ul>
+                    )}
+                    {report.blockers.length > 0 && (
+                      <ul className="mt-2 text-xs text-red-400 list-disc list-inside">
+                        {report.blockers.map((blocker, idx) => <li key={idx}>{blocker}</li>)}
+                      </ul>
                     )}
                   </li>
                 ))}
               </ul>
             )}
-          </div>
+          </Section>
 
-          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
-            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
-              <span className="w-3 h-3 rounded-full bg-green-500"></span>
-              Completed Tasks
-            </h2>
-            {completedTasks.length === 0 ? (
-              <p className="text-gray-500 italic">No completed tasks found.</p>
+          {/* Cron jobs */}
+          <Section title="Cron Jobs" count={cronJobs.length}>
+            {cronJobs.length === 0 ? (
+              <Empty>No cron jobs linked to this agent</Empty>
             ) : (
-              <ul className="space-y-4">
-                {completedTasks.map((task, idx) => (
-                  <li key={idx} className="bg-gray-750 p-4 rounded border border-gray-600 opacity-75">
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold text-gray-200 line-through">{task.title}</span>
-                      <span className="text-xs px-2 py-1 rounded bg-green-900 text-green-200">
-                        {task.status}
+              <ul className="divide-y divide-zinc-800">
+                {cronJobs.map(job => (
+                  <li key={job.id} className={`py-2 ${job.enabled ? '' : 'opacity-60'}`}>
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-zinc-200 truncate">{job.name}</span>
+                      <span className={`text-xs font-semibold ${runStatusColors[job.last_status || ''] || 'text-zinc-500'}`}>
+                        {job.last_status || 'never run'}
                       </span>
                     </div>
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      {job.enabled ? describeSchedule(job) : 'disabled'} · Last: {formatDate(job.last_run_at)}
+                      {job.consecutive_errors ? ` · ${job.consecutive_errors} consecutive errors` : ''}
+                    </p>
+                    {job.last_status !== 'ok' && job.last_error && (
+                      <p className="text-xs text-red-400/80 mt-0.5 truncate">{job.last_error}</p>
+                    )}
                   </li>
                 ))}
               </ul>
             )}
-          </div>
+          </Section>
         </div>
+
+        {/* API tokens */}
+        <Section title="API Tokens">
+          {agent.retired_at ? (
+            <Empty>Retired agents cannot hold tokens. Restore the agent on /agents/manage first.</Empty>
+          ) : (
+            <AgentTokenManager agentId={agent.id} agentName={agent.name} />
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+}
+
+function Section({ title, count, action, children }: { title: string; count?: number; action?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">
+          {title}{count !== undefined && <span className="ml-2 text-zinc-600">{count}</span>}
+        </h2>
+        {action}
       </div>
+      {children}
+    </div>
+  );
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm text-zinc-600 italic">{children}</p>;
+}
+
+function Stat({ label, value, sub, warn, mono }: { label: string; value: string; sub?: string; warn?: boolean; mono?: boolean }) {
+  return (
+    <div className="bg-zinc-950/50 rounded-lg p-3 border border-zinc-800/50">
+      <p className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">{label}</p>
+      <p className={`${mono ? 'font-mono text-blue-400' : 'font-semibold'} ${warn ? 'text-amber-400' : mono ? '' : 'text-zinc-200'}`}>{value}</p>
+      {sub && <p className="text-[10px] text-zinc-600 mt-0.5">{sub}</p>}
     </div>
   );
 }
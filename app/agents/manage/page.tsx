@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { supabaseServer } from '@/lib/supabase-server';
+import { Agent } from '@/lib/supabase-client';
+import { AgentRegistryManager } from '@/components/AgentRegistryManager';
+
+// Admin-only (middleware.ts); includes retired agents, so it is never cached
+export const dynamic = 'force-dynamic';
+
+export default async function ManageAgentsPage() {
+  const { data, error } = await supabaseServer
+    .from('agents')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching agents:', error);
+  }
+
+  const agents = (data || []) as Agent[];
+
+  return (
+    <div className="bg-zinc-950 text-zinc-100 font-sans p-8 min-h-[calc(100vh-64px)]">
+      <div className="max-w-5xl mx-auto">
+        <Link
+          href="/agents"
+          className="inline-flex items-center gap-2 text-zinc-500 hover:text-zinc-300 text-sm mb-6 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Voltar para Agents
+        </Link>
+
+        <header className="mb-8">
+          <h1 className="text-2xl font-bold tracking-tight text-white">Manage Agents</h1>
+          <p className="text-zinc-500 text-xs mt-1 uppercase tracking-widest font-semibold">
+            {agents.filter(a => !a.retired_at).length} Active • Retired agents keep their tasks, history and reports
+          </p>
+        </header>
+
+        <AgentRegistryManager agents={agents} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import Link from 'next/link';
+import { supabaseServer } from '@/lib/supabase-server';
+import { DEFAULT_PAGE_SIZE, decodeCursor } from '@/lib/pagination';
+import { getMemoryTypes, parseMemoryFilters, searchAgentMemory } from '@/lib/agent-memory';
+import { MemoryExplorer } from '@/components/MemoryExplorer';
+
+// Reports arrive every few minutes and search is per request; always read fresh
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: { [key: string]: string | string[] | undefined };
+}
+
+export default async function AgentMemoryPage({ searchParams }: PageProps) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (typeof value === 'string') params.set(key, value);
+  }
+
+  const filters = parseMemoryFilters(params);
+  const rawCursor = params.get('cursor');
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+
+  // Retired agents stay in the list: their memory is still worth browsing
+  const [page, memoryTypes, { data: agents }] = await Promise.all([
+    searchAgentMemory(filters, DEFAULT_PAGE_SIZE, cursor).catch(error => {
+      console.error('Error fetching agent memory:', error);
+      return { data: [], nextCursor: null };
+    }),
+    getMemoryTypes(),
+    supabaseServer.from('agents').select('id, name').order('name'),
+  ]);
+
+  const newest = new URLSearchParams(params);
+  newest.delete('cursor');
+
+  const agentName = filters.agentId ? (agents || []).find(a => a.id === filters.agentId)?.name : null;
+
+  return (
+    <div className="bg-zinc-950 text-zinc-100 font-sans p-8 min-h-[calc(100vh-64px)]">
+      <div className="max-w-5xl mx-auto">
+        <Link
+          href={filters.agentId ? `/agents/${filters.agentId}` : '/agents'}
+          className="inline-flex items-center gap-2 text-zinc-500 hover:text-zinc-300 text-sm mb-6 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          {agentName ? `Voltar para ${agentName}` : 'Voltar para Agents'}
+        </Link>
+
+        <header className="mb-8">
+          <h1 className="text-2xl font-bold tracking-tight text-white">Agent Memory</h1>
+          <p className="text-zinc-500 text-xs mt-1 uppercase tracking-widest font-semibold">
+            {agentName || 'All agents'} • Heartbeat reports and saved memory, newest first
+            {rawCursor && (
+              <>
+                {' • '}
+                <Link href={`/agents/memory?${newest.toString()}`} className="text-zinc-400 hover:text-zinc-200">
+                  Back to newest
+                </Link>
+              </>
+            )}
+          </p>
+        </header>
+
+        <MemoryExplorer
+          entries={page.data}
+          agents={agents || []}
+          memoryTypes={memoryTypes}
+          filters={filters}
+          nextCursor={page.nextCursor}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
-import { getAgents, Agent } from '@/lib/supabase-client';
+import { Agent } from '@/lib/supabase-client';
+import { getCachedAgents } from '@/lib/cached-data';
 import Link from 'next/link';
+import { ExportButtons } from '@/components/ExportButtons';
 
-export const revalidate = 60; // ISR: Revalidate every 60 seconds
+// Reads as the logged-in user (session cookies), so it renders per request
+export const dynamic = 'force-dynamic';
 
 export default async function AgentsPage() {
-  const agents = await getAgents();
+  const agents = await getCachedAgents();
 
   return (
     <div className="bg-zinc-950 text-zinc-100 font-sans p-8 min-h-[calc(100vh-64px)]">
@@ -15,7 +18,14 @@ export default async function AgentsPage() {
             Powered by Supabase • Neural Unit Status & Deployment
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+           <ExportButtons datasets={['reports', 'cron_runs']} />
+           <Link href="/agents/memory" className="px-3 py-1 bg-zinc-900 hover:bg-zinc-800 rounded-lg text-xs font-semibold text-zinc-400 hover:text-zinc-200 border border-zinc-800 transition-colors">
+             Memory
+           </Link>
+           <Link href="/agents/manage" className="px-3 py-1 bg-zinc-900 hover:bg-zinc-800 rounded-lg text-xs font-semibold text-zinc-400 hover:text-zinc-200 border border-zinc-800 transition-colors">
+             Manage
+           </Link>
            <span className="px-3 py-1 bg-zinc-900 rounded-lg text-xs font-bold text-emerald-500 border border-emerald-500/20 shadow-[0_0_15px_rgba(16,185,129,0.1)]">
              {agents.length} ACTIVE UNITS
            </span>
@@ -48,7 +58,7 @@ function AgentCard({ agent }: { agent: Agent }) {
   const config = statusConfig[agent.status] || statusConfig.idle;
 
   return (
-    <div className="group block bg-zinc-900 border border-zinc-800 rounded-xl p-6 hover:border-emerald-500/50 transition-all shadow-lg relative overflow-hidden">
+    <Link href={`/agents/${agent.id}`} className="group block bg-zinc-900 border border-zinc-800 rounded-xl p-6 hover:border-emerald-500/50 transition-all shadow-lg relative overflow-hidden">
       <div className="absolute top-0 right-0 p-4 opacity-50 group-hover:opacity-100 transition-opacity">
         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${config.bg} ${config.text} ${config.border}`}>
           {agent.status}
@@ -94,6 +104,6 @@ function AgentCard({ agent }: { agent: Agent }) {
           </div>
         )}
       </div>
-    </div>
+    </Link>
   );
 }
@@ -38,7 +38,7 @@ CREATE TABLE IF NOT EXISTS task_history (
   task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
   agent_id UUID REFERENCES agents(id) ON DELETE SET NULL,
   action TEXT NOT NULL,
-  details JSONB,
+  note TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -47,7 +47,7 @@ CREATE TABLE IF NOT EXISTS agent_memory (
   agent_id UUID REFERENCES agents(id) ON DELETE CASCADE,
   memory_type TEXT,
   key TEXT,
-  value JSONB,
+  content TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { BLOCKER_SELECT, resolveBlocker } from '@/lib/agent-blockers';
+import { actorName, authorizeUser } from '@/lib/auth-server';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+const STATUSES = ['open', 'resolved', 'all'];
+
+// GET /api/agents/blockers?status=open|resolved|all&agentId=...&taskId=... - Blockers from agent reports (open by default)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') || 'open';
+  const agentId = searchParams.get('agentId');
+  const taskId = searchParams.get('taskId');
+
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json({ error: `Invalid status. Must be one of: ${STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  const query = supabaseServer
+    .from('agent_blockers')
+    .select(BLOCKER_SELECT);
+
+  if (status !== 'all') query.eq('status', status);
+  if (agentId) query.eq('agent_id', agentId);
+  if (taskId) query.eq('task_id', taskId);
+
+  const { data, error } = await query
+    .order('last_reported_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching agent blockers:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * PATCH /api/agents/blockers
+ * Resolve an open blocker by hand (e.g. the agent stopped reporting).
+ * If the agent reports it again it opens as a new blocker. Attributed to the
+ * logged-in operator.
+ *
+ * Body: { blockerId: string }
+ * Returns: the resolved blocker
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authorizeUser('operator');
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { blockerId } = await request.json();
+
+    if (!blockerId) {
+      return NextResponse.json({ error: 'blockerId is required' }, { status: 400 });
+    }
+
+    const resolved = await resolveBlocker(blockerId, actorName(auth.user!));
+    if (!resolved) {
+      return NextResponse.json({ error: 'Blocker not found or already resolved' }, { status: 404 });
+    }
+
+    return NextResponse.json(resolved);
+  } catch (error) {
+    console.error('Error resolving agent blocker:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
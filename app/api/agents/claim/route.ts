@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { claimNextTask, parseLeaseSeconds, releaseLease, renewLease } from '@/lib/task-leases';
+import { authenticateAgent } from '@/lib/agent-auth';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/agents/claim
+ * Atomically leases the next eligible task to the agent: its own backlog/todo
+ * tasks first, then unassigned ones it has the capabilities for, by priority
+ * and board order. Tasks with open dependencies are skipped. The task moves to
+ * in_progress and is assigned to the agent until the lease runs out.
+ *
+ * Body: { agentId: string, ttlSeconds?: number }  // default 900, max 14400
+ * Returns: { task: Task | null, leaseExpiresAt: string | null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { agentId, ttlSeconds } = await request.json();
+
+    if (!agentId) {
+      return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+    }
+
+    const auth = await authenticateAgent(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const leaseSeconds = parseLeaseSeconds(ttlSeconds);
+    if (leaseSeconds === null) {
+      return NextResponse.json({ error: 'ttlSeconds must be a positive integer' }, { status: 400 });
+    }
+
+    const task = await claimNextTask(agentId, leaseSeconds);
+    if (task) {
+      revalidateTasks([task.id]);
+    }
+
+    return NextResponse.json({ task, leaseExpiresAt: task?.lease_expires_at ?? null });
+  } catch (error) {
+    console.error('Error claiming task:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/agents/claim
+ * Lease heartbeat: extends the lease on a task the agent holds (a shorter
+ * ttlSeconds keeps the later expiry). A 409 means the lease was lost and the
+ * agent must stop working on the task.
+ *
+ * Body: { agentId: string, taskId: string, ttlSeconds?: number }
+ * Returns: { taskId, leaseExpiresAt }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { agentId, taskId, ttlSeconds } = await request.json();
+
+    if (!agentId || !taskId) {
+      return NextResponse.json({ error: 'agentId and taskId are required' }, { status: 400 });
+    }
+
+    const auth = await authenticateAgent(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const leaseSeconds = parseLeaseSeconds(ttlSeconds);
+    if (leaseSeconds === null) {
+      return NextResponse.json({ error: 'ttlSeconds must be a positive integer' }, { status: 400 });
+    }
+
+    const task = await renewLease(taskId, agentId, leaseSeconds);
+    if (!task) {
+      return NextResponse.json({ error: 'Lease not held or already expired' }, { status: 409 });
+    }
+
+    return NextResponse.json({ taskId, leaseExpiresAt: task.lease_expires_at });
+  } catch (error) {
+    console.error('Error renewing lease:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/agents/claim
+ * Gives a leased task back to the queue (todo, unassigned) without finishing it.
+ * Finished work is reported through POST /api/agents/report instead.
+ *
+ * Body: { agentId: string, taskId: string, reason?: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { agentId, taskId, reason } = await request.json();
+
+    if (!agentId || !taskId) {
+      return NextResponse.json({ error: 'agentId and taskId are required' }, { status: 400 });
+    }
+
+    const auth = await authenticateAgent(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const released = await releaseLease(taskId, agentId, typeof reason === 'string' ? reason : undefined);
+    if (!released) {
+      return NextResponse.json({ error: 'Lease not held by this agent' }, { status: 409 });
+    }
+
+    revalidateTasks([taskId]);
+
+    return NextResponse.json({ message: 'Task returned to the queue', taskId });
+  } catch (error) {
+    console.error('Error releasing lease:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
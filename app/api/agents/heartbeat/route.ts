@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { HEARTBEAT_HISTORY_LIMIT } from '@/lib/heartbeat';
+import { parseLeaseSeconds, renewLease } from '@/lib/task-leases';
+import { authenticateAgent } from '@/lib/agent-auth';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/agents/heartbeat
+ * Lightweight "still alive" signal, separate from wake/report. Stores the
+ * heartbeat in the agent's rolling history and refreshes agents.last_heartbeat.
+ * If the agent holds a lease on taskId (POST /api/agents/claim) it is renewed
+ * for ttlSeconds; a lease already running longer is kept as it is.
+ *
+ * Body: {
+ *   agentId: string,
+ *   taskId?: string,       // Task being worked on
+ *   progress?: number,     // 0-100
+ *   tokensUsed?: number,   // Tokens spent so far on the current run
+ *   statusText?: string,   // Free-form, e.g. "running migrations"
+ *   ttlSeconds?: number    // Lease renewal (default 15 minutes, max 4 hours)
+ * }
+ * Returns: { success, timestamp, leaseExpiresAt: string | null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { agentId, taskId, progress, tokensUsed, statusText, ttlSeconds } = await request.json();
+
+    if (!agentId) {
+      return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+    }
+
+    const auth = await authenticateAgent(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    if (progress !== undefined && progress !== null &&
+        (typeof progress !== 'number' || !Number.isFinite(progress) || progress < 0 || progress > 100)) {
+      return NextResponse.json({ error: 'progress must be a number between 0 and 100' }, { status: 400 });
+    }
+    if (tokensUsed !== undefined && tokensUsed !== null &&
+        (typeof tokensUsed !== 'number' || !Number.isInteger(tokensUsed) || tokensUsed < 0)) {
+      return NextResponse.json({ error: 'tokensUsed must be a non-negative integer' }, { status: 400 });
+    }
+    if (statusText !== undefined && statusText !== null && typeof statusText !== 'string') {
+      return NextResponse.json({ error: 'statusText must be a string' }, { status: 400 });
+    }
+
+    const leaseSeconds = parseLeaseSeconds(ttlSeconds);
+    if (leaseSeconds === null) {
+      return NextResponse.json({ error: 'ttlSeconds must be a positive integer' }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+
+    const { error } = await supabaseServer
+      .from('agent_heartbeats')
+      .insert({
+        agent_id: agentId,
+        task_id: taskId || null,
+        progress: typeof progress === 'number' ? Math.round(progress) : null,
+        tokens_used: tokensUsed ?? null,
+        status_text: statusText ? statusText.slice(0, 500) : null,
+        created_at: now
+      });
+
+    if (error) {
+      // Foreign key violation: unknown agent or task
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Agent or task not found' }, { status: 404 });
+      }
+      console.error('Error saving heartbeat:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { error: agentError } = await supabaseServer
+      .from('agents')
+      .update({ last_heartbeat: now })
+      .eq('id', agentId);
+
+    if (agentError) {
+      console.error('Error updating agent heartbeat:', agentError);
+    }
+
+    // Keep only the newest HEARTBEAT_HISTORY_LIMIT heartbeats of this agent
+    const { data: cutoff } = await supabaseServer
+      .from('agent_heartbeats')
+      .select('created_at')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .range(HEARTBEAT_HISTORY_LIMIT, HEARTBEAT_HISTORY_LIMIT)
+      .maybeSingle();
+
+    if (cutoff) {
+      await supabaseServer
+        .from('agent_heartbeats')
+        .delete()
+        .eq('agent_id', agentId)
+        .lte('created_at', cutoff.created_at);
+    }
+
+    const lease = taskId ? await renewLease(taskId, agentId, leaseSeconds) : null;
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now,
+      leaseExpiresAt: lease?.lease_expires_at ?? null
+    });
+  } catch (error) {
+    console.error('Error recording heartbeat:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// GET /api/agents/heartbeat?agentId=...&limit=50 - Recent heartbeats of an agent, newest first
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const agentId = searchParams.get('agentId');
+  const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, HEARTBEAT_HISTORY_LIMIT);
+
+  if (!agentId) {
+    return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseServer
+    .from('agent_heartbeats')
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching heartbeats:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeCursor, parseLimit } from '@/lib/pagination';
+import { getPreviousMemory, parseMemoryFilters, searchAgentMemory } from '@/lib/agent-memory';
+import { authenticateAgent } from '@/lib/agent-auth';
+import { parseMemoryPayload } from '@/lib/agent-schemas';
+import { saveAgentMemory } from '@/lib/agent-service';
+import { withIdempotency } from '@/lib/idempotency';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agents/memory
+ * Browse and search agent memory, newest first
+ *
+ * Query:
+ *   agentId?  - one agent (omit for all agents)
+ *   type?     - memory_type, e.g. heartbeat_report
+ *   q?        - full-text search over report summaries and findings
+ *   limit?, cursor? - keyset pagination, as on GET /api/tasks
+ *   previousOf? - memory id; returns the entry the same agent wrote just before
+ *                 it (same memory_type), for diffing consecutive reports
+ *
+ * Returns: { data: AgentMemoryEntry[], nextCursor: string | null, limit: number }
+ *          or { previous: AgentMemoryEntry | null } with previousOf
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const previousOf = searchParams.get('previousOf');
+    if (previousOf) {
+      const previous = await getPreviousMemory(previousOf);
+      return NextResponse.json({ previous });
+    }
+
+    const limit = parseLimit(searchParams.get('limit'));
+    if (limit === null) {
+      return NextResponse.json({ error: 'Invalid limit. Must be a positive integer' }, { status: 400 });
+    }
+
+    const rawCursor = searchParams.get('cursor');
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const page = await searchAgentMemory(parseMemoryFilters(searchParams), limit, cursor);
+
+    return NextResponse.json({ ...page, limit });
+  } catch (error) {
+    console.error('Error fetching agent memory:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/agents/memory
+ * Save a memory entry for the calling agent (heartbeat reports go through
+ * POST /api/agents/report instead)
+ *
+ * Body: { agentId: string, content: string, memoryType?: string, key?: string }
+ *       memoryType defaults to 'note'; key defaults to `${memoryType}_${timestamp}`
+ * Returns: the saved entry
+ * Honours Idempotency-Key (see lib/idempotency.ts)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { payload, error } = parseMemoryPayload(body);
+    if (!payload) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const auth = await authenticateAgent(request, payload.agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    return await withIdempotency(request, 'agents/memory', payload.agentId, body, async () => {
+      const entry = await saveAgentMemory(payload);
+      return NextResponse.json(entry, { status: 201 });
+    });
+  } catch (error) {
+    console.error('Error saving agent memory:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
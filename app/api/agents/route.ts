@@ -1,17 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabase-server';
 import { AgentStatus } from '@/lib/supabase-client';
+import { revalidateAgents, revalidateTasks } from '@/lib/revalidation';
+import { parseAgentProfile, restoreAgent, retireAgent } from '@/lib/agent-registry';
+import { actorName, authorizeUser } from '@/lib/auth-server';
 
 // Force dynamic rendering - no caching
 export const dynamic = 'force-dynamic';
 
-// GET /api/agents - Fetch all agents
-export async function GET() {
-  const { data, error } = await supabaseServer
+// GET /api/agents?includeRetired=true - Fetch agents (active only unless includeRetired)
+export async function GET(request: NextRequest) {
+  const includeRetired = new URL(request.url).searchParams.get('includeRetired') === 'true';
+
+  const query = supabaseServer
     .from('agents')
     .select('*')
     .order('name');
 
+  if (!includeRetired) {
+    query.is('retired_at', null);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     console.error('Error fetching agents:', error);
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -20,41 +31,146 @@ export async function GET() {
   return NextResponse.json(data);
 }
 
-// PATCH /api/agents - Update agent status
+/**
+ * POST /api/agents
+ * Register an agent. It starts idle; issue it a token on /agents/[id].
+ *
+ * Body: { name: string, role?: string, capabilities?: string[], memory_path?: string }
+ * Returns: the created agent
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const { profile, error: validationError } = parseAgentProfile(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseServer
+      .from('agents')
+      .insert({ ...profile, status: 'idle' })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `An agent named ${profile.name} already exists` }, { status: 409 });
+      }
+      console.error('Error creating agent:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    revalidateAgents();
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error('Error creating agent:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/agents - Update agent status and/or profile (name, role, capabilities, memory_path)
+// { agentId, restore: true } brings a retired agent back
+// Not a heartbeat: last_heartbeat only moves on wake, report and POST /api/agents/heartbeat
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { agentId, status } = body;
+    const { agentId, status, restore } = body;
 
-    if (!agentId || !status) {
-      return NextResponse.json({ error: 'agentId and status are required' }, { status: 400 });
+    if (!agentId) {
+      return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+    }
+
+    if (restore === true) {
+      const restored = await restoreAgent(agentId);
+      if (!restored) {
+        return NextResponse.json({ error: 'Agent not found or not retired' }, { status: 404 });
+      }
+      revalidateAgents();
+      return NextResponse.json({ message: 'Agent restored successfully' });
     }
 
     // Validate status
     const validStatuses: AgentStatus[] = ['idle', 'working', 'offline', 'error'];
-    if (!validStatuses.includes(status)) {
-      return NextResponse.json({ 
-        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` 
+    if (status !== undefined && !validStatuses.includes(status)) {
+      return NextResponse.json({
+        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`
       }, { status: 400 });
     }
 
-    const { error } = await supabaseServer
+    const { profile, error: validationError } = parseAgentProfile(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const updates = { ...profile, ...(status !== undefined && { status }) };
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseServer
       .from('agents')
-      .update({ 
-        status, 
-        last_heartbeat: new Date().toISOString(),
-        updated_at: new Date().toISOString() 
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
       })
-      .eq('id', agentId);
+      .eq('id', agentId)
+      .is('retired_at', null)
+      .select('id');
 
     if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `An agent named ${profile.name} already exists` }, { status: 409 });
+      }
       console.error('Error updating agent:', error);
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Agent not found or retired' }, { status: 404 });
+    }
+
+    revalidateAgents();
+
     return NextResponse.json({ message: 'Agent updated successfully' });
   } catch (error) {
     console.error('Error updating agent:', error);
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 }
+
+// DELETE /api/agents?id=... - Retire an agent (soft delete: revokes its tokens, unassigns open tasks).
+// Attributed to the logged-in admin.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeUser('admin');
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const agentId = searchParams.get('id');
+
+    if (!agentId) {
+      return NextResponse.json({ error: 'Agent ID is required' }, { status: 400 });
+    }
+
+    const result = await retireAgent(agentId, actorName(auth.user!));
+    if (!result) {
+      return NextResponse.json({ error: 'Agent not found or already retired' }, { status: 404 });
+    }
+
+    revalidateAgents();
+    if (result.tasksUnassigned > 0) revalidateTasks();
+
+    return NextResponse.json({ message: 'Agent retired successfully', ...result });
+  } catch (error) {
+    console.error('Error retiring agent:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import {
+  AGENT_TOKEN_COLUMNS,
+  issueAgentToken,
+  revokeAgentToken
+} from '@/lib/agent-auth';
+import { authorizeUser } from '@/lib/auth-server';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// Token management needs a logged-in admin; an agent token never grants it
+async function requireAdmin(): Promise<NextResponse | null> {
+  const auth = await authorizeUser('admin');
+  return auth.ok ? null : NextResponse.json({ error: auth.error }, { status: auth.status });
+}
+
+// GET /api/agents/tokens?agentId=... - Tokens of an agent (never the token itself), newest first
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+
+  const agentId = new URL(request.url).searchParams.get('agentId');
+  if (!agentId) {
+    return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseServer
+    .from('agent_tokens')
+    .select(AGENT_TOKEN_COLUMNS)
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching agent tokens:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * POST /api/agents/tokens
+ * Issues a new token. The plaintext token is returned once and never stored.
+ *
+ * Body: { agentId: string, name?: string }
+ * Returns: { token: string, record: AgentToken }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+
+  try {
+    const { agentId, name } = await request.json();
+
+    if (!agentId) {
+      return NextResponse.json({ error: 'agentId is required' }, { status: 400 });
+    }
+
+    const { data: agent } = await supabaseServer
+      .from('agents')
+      .select('id, retired_at')
+      .eq('id', agentId)
+      .maybeSingle();
+
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    }
+    if (agent.retired_at) {
+      return NextResponse.json({ error: 'Agent is retired' }, { status: 409 });
+    }
+
+    const label = typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : 'default';
+    const issued = await issueAgentToken(agentId, label);
+
+    return NextResponse.json(issued, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing agent token:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/agents/tokens
+ * Rotates a token: a new token with the same agent and name replaces it, and
+ * the old one stops working immediately.
+ *
+ * Body: { tokenId: string }
+ * Returns: { token: string, record: AgentToken }
+ */
+export async function PATCH(request: NextRequest) {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+
+  try {
+    const { tokenId } = await request.json();
+
+    if (!tokenId) {
+      return NextResponse.json({ error: 'tokenId is required' }, { status: 400 });
+    }
+
+    const revoked = await revokeAgentToken(tokenId);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Token not found or already revoked' }, { status: 404 });
+    }
+
+    const issued = await issueAgentToken(revoked.agent_id, revoked.name);
+
+    return NextResponse.json(issued);
+  } catch (error) {
+    console.error('Error rotating agent token:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/agents/tokens?id=... - Revoke a token
+export async function DELETE(request: NextRequest) {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const revoked = await revokeAgentToken(id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Token not found or already revoked' }, { status: 404 });
+    }
+
+    return NextResponse.json(revoked);
+  } catch (error) {
+    console.error('Error revoking agent token:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { authenticateAgent } from '@/lib/agent-auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -47,6 +48,11 @@ export async function GET() {
  */
 export async function POST(request: Request) {
   try {
+    const auth = await authenticateAgent(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
     const { jobs } = await request.json();
 
     if (!Array.isArray(jobs)) {
@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { revalidatePath } from 'next/cache';
+import { authenticateAgent } from '@/lib/agent-auth';
+import { MaterializeResult, runDueTemplates } from '@/lib/task-templates';
+import { revalidateTasks } from '@/lib/revalidation';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -48,13 +52,20 @@ interface GatewayJob {
 
 /**
  * POST /api/cron/sync
- * Sync Gateway cron jobs to Supabase
+ * Sync Gateway cron jobs to Supabase, then create tasks from every task
+ * template that is due (the Gateway calls this on its own schedule, which is
+ * what drives recurring templates)
  * 
  * Body: { jobs: GatewayJob[] }
- * Returns: { success: boolean, synced: number, created: number, updated: number }
+ * Returns: { success: boolean, synced: number, created: number, updated: number, templates: MaterializeResult[] }
  */
 export async function POST(request: Request) {
   try {
+    const auth = await authenticateAgent(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
     const { jobs } = await request.json() as { jobs: GatewayJob[] };
     
     if (!jobs || !Array.isArray(jobs)) {
@@ -134,11 +145,24 @@ export async function POST(request: Request) {
       }
     }
 
+    // A template failure must not fail the job sync
+    let templates: MaterializeResult[] = [];
+    try {
+      templates = await runDueTemplates();
+      if (templates.length > 0) {
+        revalidateTasks(templates.map(t => t.taskId));
+        revalidatePath('/tasks/templates');
+      }
+    } catch (templateError) {
+      console.error('Error running due task templates:', templateError);
+    }
+
     return NextResponse.json({
       success: true,
       synced,
       created,
       updated,
+      templates,
       timestamp: new Date().toISOString()
     });
 
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EXPORT_DATASETS, ExportFormat, exportStream, isExportDataset } from '@/lib/export';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts a date (YYYY-MM-DD) or a full timestamp. A date-only `to` covers
+// that whole day, so from=2026-10-12&to=2026-10-18 is one week.
+function parseBound(value: string | null, isUpperBound: boolean): string | null | undefined {
+  if (!value) return undefined;
+  if (Number.isNaN(Date.parse(value))) return null;
+  const date = new Date(value);
+  if (isUpperBound && DATE_ONLY.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString();
+}
+
+/**
+ * GET /api/export/:dataset
+ * Streams a dataset as CSV or NDJSON, oldest first.
+ * Datasets: tasks, task_history, cron_runs, reports (agent heartbeat reports)
+ * Query params: format ('csv' | 'ndjson', default csv), from, to
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { dataset: string } }
+) {
+  try {
+    const { dataset } = params;
+    if (!isExportDataset(dataset)) {
+      return NextResponse.json({
+        error: `Unknown dataset. Must be one of: ${Object.keys(EXPORT_DATASETS).join(', ')}`
+      }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    if (format !== 'csv' && format !== 'ndjson') {
+      return NextResponse.json({ error: 'Invalid format. Must be one of: csv, ndjson' }, { status: 400 });
+    }
+
+    const from = parseBound(searchParams.get('from'), false);
+    const to = parseBound(searchParams.get('to'), true);
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps' }, { status: 400 });
+    }
+
+    const range = [searchParams.get('from'), searchParams.get('to')].filter(Boolean).join('_to_');
+    const filename = `${dataset}${range ? `_${range}` : ''}.${format}`.replace(/[^\w.-]/g, '');
+
+    return new NextResponse(exportStream(dataset, format, { from, to }), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,57 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath, revalidateTag } from 'next/cache';
+import { isCacheTag, isRevalidatablePath, verifyRevalidation } from '@/lib/revalidation';
 
-// POST /api/revalidate - On-demand revalidation for ISR
-// This allows instant cache invalidation when data changes
+/**
+ * POST /api/revalidate - On-demand revalidation for external writers
+ * (scripts, other services). The dashboard's own routes revalidate by
+ * themselves. Requests must be HMAC-signed, see verifyRevalidation in
+ * lib/revalidation.ts or scripts/revalidate.ts.
+ *
+ * Body: { tags?: ('tasks' | 'agents')[], paths?: string[] }
+ * Returns: { revalidated: true, tags, paths, timestamp }
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { path, tag, secret } = body;
+    const secret = process.env.REVALIDATION_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'Revalidation is not configured (REVALIDATION_SECRET)' }, { status: 503 });
+    }
 
-    // Verify secret token for security
-    if (secret !== process.env.REVALIDATION_SECRET && secret !== 'amplify-revalidate-2026') {
-      return NextResponse.json({ error: 'Invalid secret' }, { status: 401 });
+    const rawBody = await request.text();
+    const signatureError = verifyRevalidation(rawBody, request.headers, secret);
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
     }
 
-    // Revalidate by path
-    if (path) {
-      revalidatePath(path);
-      console.log(`[Revalidation] Path: ${path}`);
-      return NextResponse.json({ 
-        revalidated: true, 
-        path,
-        timestamp: new Date().toISOString() 
-      });
+    let body: { tags?: unknown; paths?: unknown };
+    try {
+      body = JSON.parse(rawBody || '{}');
+    } catch {
+      return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
     }
 
-    // Revalidate by tag (for grouped caching)
-    if (tag) {
-      revalidateTag(tag);
-      console.log(`[Revalidation] Tag: ${tag}`);
-      return NextResponse.json({ 
-        revalidated: true, 
-        tag,
-        timestamp: new Date().toISOString() 
-      });
+    const tags = Array.isArray(body.tags) ? body.tags : [];
+    const paths = Array.isArray(body.paths) ? body.paths : [];
+
+    if (tags.length === 0 && paths.length === 0) {
+      return NextResponse.json({ error: 'tags or paths required' }, { status: 400 });
     }
 
-    // Revalidate all common paths
-    const paths = ['/tasks', '/agents', '/'];
-    paths.forEach(p => revalidatePath(p));
-    
-    console.log('[Revalidation] All paths');
-    return NextResponse.json({ 
-      revalidated: true, 
+    const invalidTags = tags.filter(t => !isCacheTag(t));
+    const invalidPaths = paths.filter(p => !isRevalidatablePath(p));
+    if (invalidTags.length > 0 || invalidPaths.length > 0) {
+      return NextResponse.json({
+        error: 'Unknown tags or paths',
+        invalidTags,
+        invalidPaths
+      }, { status: 400 });
+    }
+
+    tags.forEach(tag => revalidateTag(tag));
+    paths.forEach(path => revalidatePath(path));
+    console.log(`[Revalidation] Tags: ${tags.join(', ') || '-'} Paths: ${paths.join(', ') || '-'}`);
+
+    return NextResponse.json({
+      revalidated: true,
+      tags,
       paths,
-      timestamp: new Date().toISOString() 
+      timestamp: new Date().toISOString()
     });
 
   } catch (error) {
     console.error('Revalidation error:', error);
-    return NextResponse.json({ 
-      error: 'Revalidation failed',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    return NextResponse.json({ error: 'Revalidation failed' }, { status: 500 });
   }
 }
 
@@ -60,6 +70,6 @@ export async function GET() {
   return NextResponse.json({
     status: 'active',
     message: 'Revalidation API is ready',
-    usage: 'POST with { path?: string, tag?: string, secret: string }'
+    usage: 'POST { tags?: string[], paths?: string[] } with X-Revalidate-Timestamp and X-Revalidate-Signature headers'
   });
 }
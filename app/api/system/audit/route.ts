@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getDeadline, isOverdue } from '@/lib/task-sla';
+import { isHeartbeatStale } from '@/lib/heartbeat';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -13,7 +15,8 @@ const supabase = createClient(
  * Returns: {
  *   integrity: 'OK' | 'CRITICAL' | 'WARNING',
  *   agents: { total, active, stalled },
- *   tasks: { total, pending, inProgress, done },
+ *   tasks: { total, backlog, todo, inProgress, blocked, done, overdue },
+ *   overdueTasks: { id, title, priority, deadline, source }[],
  *   recentActivity: TaskHistory[],
  *   issues: string[]
  * }
@@ -26,7 +29,8 @@ export async function GET() {
     // 1. Check agents
     const { data: agents, error: agentsError } = await supabase
       .from('agents')
-      .select('id, name, status, last_heartbeat');
+      .select('id, name, status, last_heartbeat')
+      .is('retired_at', null);
 
     if (agentsError) {
       issues.push('Failed to fetch agents');
@@ -34,13 +38,7 @@ export async function GET() {
     }
 
     const now = Date.now();
-    const FIFTEEN_MINUTES = 15 * 60 * 1000;
-
-    const stalledAgents = (agents || []).filter(a => {
-      if (!a.last_heartbeat) return true;
-      const lastBeat = new Date(a.last_heartbeat).getTime();
-      return (now - lastBeat) > FIFTEEN_MINUTES;
-    });
+    const stalledAgents = (agents || []).filter(a => isHeartbeatStale(a.last_heartbeat, now));
 
     if (stalledAgents.length > 0) {
       issues.push(`${stalledAgents.length} agents have stale heartbeats`);
@@ -85,21 +83,36 @@ export async function GET() {
     // 4. Check tasks
     const { data: tasks, error: tasksError } = await supabase
       .from('tasks')
-      .select('id, status');
+      .select('id, title, status, priority, due_date, created_at');
 
     if (tasksError) {
       issues.push('Failed to fetch tasks');
       integrity = 'CRITICAL';
     }
 
+    // Open tasks past their due date, or todo/in progress past the SLA for their priority
+    const overdueTasks = (tasks || []).filter(t => isOverdue(t, now));
+
     const taskStats = {
       total: tasks?.length || 0,
       backlog: tasks?.filter(t => t.status === 'backlog').length || 0,
       todo: tasks?.filter(t => t.status === 'todo').length || 0,
       inProgress: tasks?.filter(t => t.status === 'in_progress').length || 0,
-      done: tasks?.filter(t => t.status === 'done').length || 0
+      blocked: tasks?.filter(t => t.status === 'blocked').length || 0,
+      done: tasks?.filter(t => t.status === 'done').length || 0,
+      overdue: overdueTasks.length
     };
 
+    if (taskStats.blocked > 0) {
+      issues.push(`${taskStats.blocked} tasks are blocked`);
+    }
+
+    if (overdueTasks.length > 0) {
+      const critical = overdueTasks.filter(t => t.priority === 'critical').length;
+      issues.push(`${overdueTasks.length} tasks are overdue${critical > 0 ? ` (${critical} critical)` : ''}`);
+      if (integrity === 'OK') integrity = 'WARNING';
+    }
+
     // 5. Generate report
     return NextResponse.json({
       timestamp: new Date().toISOString(),
@@ -116,10 +129,21 @@ export async function GET() {
         }))
       },
       tasks: taskStats,
+      overdueTasks: overdueTasks.map(t => {
+        // Never null here: only tasks with a deadline can be overdue
+        const deadline = getDeadline(t)!;
+        return {
+          id: t.id,
+          title: t.title,
+          priority: t.priority,
+          deadline: deadline.at.toISOString(),
+          source: deadline.source
+        };
+      }),
       recentActivity: recentHistory?.slice(0, 10) || [],
       issues,
       recommendation: integrity === 'CRITICAL' 
-        ? 'Agents are not using Supabase. Ensure all heartbeats call /api/agents/wake and /api/agents/report'
+        ? 'Agents are not using Supabase. Ensure agents call /api/agents/wake, /api/agents/heartbeat and /api/agents/report'
         : integrity === 'WARNING'
         ? 'Some agents may be disconnected. Check stalled agents.'
         : 'System operating normally.'
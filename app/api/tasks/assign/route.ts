@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { autoAssignTask } from '@/lib/task-assignment';
+import { agentNameFieldError, authorizeTaskWrite } from '@/lib/agent-auth';
+import { actorName } from '@/lib/auth-server';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/tasks/assign
+ * Auto-assigns a task to the least-loaded idle agent whose capabilities cover
+ * the task's required_capabilities. The decision (or why no agent qualified)
+ * is logged to task_history, attributed to the token's agent or the logged-in user.
+ *
+ * Body: { taskId: string, agentId?: string }
+ * Returns: { assigned: boolean, agent: { id, name, openTasks } | null, reason: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, agentId, actor } = await request.json();
+
+    const auth = await authorizeTaskWrite(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const nameError = agentNameFieldError(auth, { actor });
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const { data: task, error } = await supabaseServer
+      .from('tasks')
+      .select('id, status')
+      .eq('id', taskId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching task:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+    if (task.status === 'done') {
+      return NextResponse.json({ error: 'Task is already done' }, { status: 409 });
+    }
+
+    const decision = await autoAssignTask(taskId, { agentId: auth.agentId, actor: auth.user ? actorName(auth.user) : null });
+
+    revalidateTasks([taskId]);
+
+    return NextResponse.json({
+      assigned: decision.agent !== null,
+      agent: decision.agent && { id: decision.agent.id, name: decision.agent.name, openTasks: decision.agent.openTasks },
+      reason: decision.reason
+    }, { status: decision.agent ? 200 : 409 });
+  } catch (error) {
+    console.error('Error auto-assigning task:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportBoard, importBoard } from '@/lib/board-sync';
+import { revalidateTasks } from '@/lib/revalidation';
+import { actorName, authorizeUser } from '@/lib/auth-server';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// GET /api/tasks/board - Export the board as TASKS.md markdown
+export async function GET() {
+  try {
+    const markdown = await exportBoard();
+    return new NextResponse(markdown, {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': 'inline; filename="TASKS.md"'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting board:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/board
+ * Imports a TASKS.md file. Status and owner changes are applied to tasks
+ * matched by title and unknown titles are created. Nothing is written if any
+ * task conflicts with a Supabase edit made after the file was exported,
+ * unless force is set. Tasks missing from the file are never deleted. History
+ * names the logged-in operator.
+ *
+ * Body: { markdown: string, dryRun?: boolean, force?: boolean }
+ * Returns: { applied, syncedAt, create, update, conflicts, missing, warnings }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeUser('operator');
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { markdown, dryRun, force } = await request.json();
+
+    if (typeof markdown !== 'string' || !markdown.trim()) {
+      return NextResponse.json({ error: 'markdown is required' }, { status: 400 });
+    }
+
+    const result = await importBoard(markdown, {
+      dryRun: dryRun === true,
+      force: force === true,
+      actor: actorName(auth.user!)
+    });
+
+    if (result.conflicts.length > 0) {
+      return NextResponse.json(result, { status: 409 });
+    }
+
+    if (result.applied) {
+      revalidateTasks();
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error importing board:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { TaskPriority, TaskStatus } from '@/lib/supabase-client';
+import { getOpenBlockers } from '@/lib/task-dependencies';
+import { diffTask, recordTaskChanges } from '@/lib/task-history';
+import { agentNameFieldError, authorizeTaskWrite } from '@/lib/agent-auth';
+import { actorName } from '@/lib/auth-server';
+import { revalidateTasks } from '@/lib/revalidation';
+import { assigneeError } from '@/lib/task-assignment';
+import { UUID_PATTERN } from '@/lib/pagination';
+import { CLEARED_LEASE, isLeasedByOther } from '@/lib/task-leases';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+const MAX_BULK_TASKS = 200;
+
+type BulkAction = 'move' | 'prioritize' | 'assign' | 'tag' | 'untag' | 'delete';
+
+interface ItemResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * POST /api/tasks/bulk
+ * Applies one action to many tasks. Every task is validated first and nothing
+ * is written unless all of them pass; results are reported per task. Agents
+ * cannot touch tasks another agent holds a lease on.
+ *
+ * Body: {
+ *   taskIds: string[],
+ *   action: 'move' | 'prioritize' | 'assign' | 'tag' | 'untag' | 'delete',
+ *   status?: TaskStatus,          // move
+ *   blocked_reason?: string,      // move to 'blocked'
+ *   priority?: TaskPriority,      // prioritize
+ *   assigned_agent_id?: string | null, // assign (null = unassign)
+ *   tag?: string,                 // tag / untag
+ *   agentId?: string              // Agent making the change (defaults to the token's agent)
+ * }
+ * History names the token's agent, or else the logged-in user.
+ *
+ * Returns: { ok: boolean, applied: number, results: { id, ok, error? }[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { taskIds, action, status, blocked_reason, priority, assigned_agent_id, tag, agentId, actor } = body;
+
+    const auth = await authorizeTaskWrite(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const nameError = agentNameFieldError(auth, { actor });
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    if (!Array.isArray(taskIds) || taskIds.length === 0 || !taskIds.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'taskIds must be a non-empty array of task IDs' }, { status: 400 });
+    }
+
+    if (taskIds.length > MAX_BULK_TASKS) {
+      return NextResponse.json({ error: `At most ${MAX_BULK_TASKS} tasks per request` }, { status: 400 });
+    }
+
+    const ids: string[] = Array.from(new Set(taskIds));
+    const now = new Date().toISOString();
+
+    // Build the shared update for the single-statement actions
+    const updates: Record<string, unknown> = { updated_at: now };
+    switch (action as BulkAction) {
+      case 'move': {
+        const validStatuses: TaskStatus[] = ['backlog', 'todo', 'in_progress', 'blocked', 'done'];
+        if (!validStatuses.includes(status)) {
+          return NextResponse.json({
+            error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`
+          }, { status: 400 });
+        }
+        if (status === 'blocked') {
+          if (typeof blocked_reason !== 'string' || !blocked_reason.trim()) {
+            return NextResponse.json({ error: 'blocked_reason is required when status is blocked' }, { status: 400 });
+          }
+          updates.blocked_reason = blocked_reason.trim();
+          updates.blocked_at = now;
+        }
+        updates.status = status;
+        if (status !== 'in_progress') Object.assign(updates, CLEARED_LEASE);
+        break;
+      }
+      case 'prioritize': {
+        const validPriorities: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+        if (!validPriorities.includes(priority)) {
+          return NextResponse.json({
+            error: `Invalid priority. Must be one of: ${validPriorities.join(', ')}`
+          }, { status: 400 });
+        }
+        updates.priority = priority;
+        break;
+      }
+      case 'assign': {
+        const invalid = await assigneeError(assigned_agent_id);
+        if (invalid) {
+          return NextResponse.json({ error: invalid.error }, { status: invalid.status });
+        }
+        updates.assigned_agent_id = assigned_agent_id;
+        break;
+      }
+      case 'tag':
+      case 'untag':
+        if (typeof tag !== 'string' || !tag.trim()) {
+          return NextResponse.json({ error: 'tag is required' }, { status: 400 });
+        }
+        break;
+      case 'delete':
+        break;
+      default:
+        return NextResponse.json({
+          error: 'Invalid action. Must be one of: move, prioritize, assign, tag, untag, delete'
+        }, { status: 400 });
+    }
+
+    // 1. Load every task and validate before touching anything. Ids that are
+    // not UUIDs would fail the whole query; they are simply not found.
+    const validIds = ids.filter(id => UUID_PATTERN.test(id));
+    const { data: tasks, error: fetchError } = await supabaseServer
+      .from('tasks')
+      .select('id, status, priority, assigned_agent_id, description, blocked_reason, due_date, tags, lease_agent_id, lease_expires_at')
+      .in('id', validIds);
+
+    if (fetchError) {
+      console.error('Error fetching tasks:', fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    const byId = new Map((tasks || []).map(t => [t.id, t]));
+    const openBlockers = action === 'move' && status === 'in_progress'
+      ? await getOpenBlockers(validIds)
+      : new Map();
+
+    const results: ItemResult[] = ids.map(id => {
+      const task = byId.get(id);
+      if (!task) return { id, ok: false, error: 'Task not found' };
+      if (auth.agentId && isLeasedByOther(task, auth.agentId)) {
+        return { id, ok: false, error: 'Task is leased by another agent' };
+      }
+      if (action === 'move' && task.status === 'blocked' && status !== 'blocked') {
+        return { id, ok: false, error: 'Task is blocked. Unblock it via POST /api/tasks/unblock' };
+      }
+      if (openBlockers.has(id)) {
+        return { id, ok: false, error: 'Task is blocked by tasks that are not done yet' };
+      }
+      return { id, ok: true };
+    });
+
+    if (results.some(r => !r.ok)) {
+      return NextResponse.json({ ok: false, applied: 0, results }, { status: 409 });
+    }
+
+    // 2. Apply
+    if (action === 'delete') {
+      const { error } = await supabaseServer.from('tasks').delete().in('id', ids);
+      if (error) {
+        console.error('Error deleting tasks:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    } else if (action === 'tag' || action === 'untag') {
+      const failure = await applyTagChange(ids, byId, tag.trim(), action === 'tag', now);
+      if (failure) {
+        return NextResponse.json({
+          ok: false,
+          applied: 0,
+          results: ids.map(id => (id === failure.id ? { id, ok: false, error: failure.error } : { id, ok: false, error: 'Rolled back' }))
+        }, { status: 500 });
+      }
+    } else {
+      // One statement, so Postgres applies it to all rows or none
+      const { error } = await supabaseServer.from('tasks').update(updates).in('id', ids);
+      if (error) {
+        console.error('Error updating tasks:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    // 3. History (deleted tasks take their history with them)
+    if (action !== 'delete') {
+      await recordTaskChanges(ids.map(id => {
+        const before = byId.get(id)!;
+        const after = action === 'tag' || action === 'untag'
+          ? { tags: nextTags(before.tags, tag.trim(), action === 'tag') }
+          : updates;
+        const newlyBlocked = action === 'move' && status === 'blocked' && before.status !== 'blocked';
+        return {
+          taskId: id,
+          action: newlyBlocked ? 'blocked' : 'updated',
+          changes: diffTask(before, after),
+          note: newlyBlocked ? updates.blocked_reason as string : undefined,
+          agentId: auth.agentId,
+          actor: auth.user ? actorName(auth.user) : null
+        };
+      }));
+    }
+
+    revalidateTasks(ids);
+
+    return NextResponse.json({ ok: true, applied: ids.length, results });
+  } catch (error) {
+    console.error('Error applying bulk task operation:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+function nextTags(tags: string[] | null, tag: string, add: boolean): string[] | null {
+  const current = tags || [];
+  if (add) return current.includes(tag) ? current : [...current, tag];
+  const remaining = current.filter(t => t !== tag);
+  return remaining.length > 0 ? remaining : null;
+}
+
+// Tags differ per row, so each task needs its own update. If one fails,
+// restore the tasks already written and report the failing id.
+async function applyTagChange(
+  ids: string[],
+  byId: Map<string, { id: string; tags: string[] | null }>,
+  tag: string,
+  add: boolean,
+  now: string
+): Promise<{ id: string; error: string } | null> {
+  const written: string[] = [];
+
+  for (const id of ids) {
+    const { error } = await supabaseServer
+      .from('tasks')
+      .update({ tags: nextTags(byId.get(id)!.tags, tag, add), updated_at: now })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating task tags, rolling back:', error);
+      for (const doneId of written) {
+        await supabaseServer.from('tasks').update({ tags: byId.get(doneId)!.tags }).eq('id', doneId);
+      }
+      return { id, error: error.message };
+    }
+
+    written.push(id);
+  }
+
+  return null;
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { addChecklistItems, completeTaskIfChecklistDone, setChecklistItemsDone } from '@/lib/task-checklist';
+import { authorizeTaskWrite } from '@/lib/agent-auth';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// GET /api/tasks/checklist?taskId= - Checklist items of a task, in order
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const taskId = searchParams.get('taskId');
+
+  if (!taskId) {
+    return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseServer
+    .from('task_checklist_items')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching checklist:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ items: data || [] });
+}
+
+// POST /api/tasks/checklist - Add items ({ taskId, title } or { taskId, titles: [] })
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, title, titles } = await request.json();
+
+    const auth = await authorizeTaskWrite(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const list: unknown[] = Array.isArray(titles) ? titles : [title];
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    if (!list.every(t => typeof t === 'string') || !list.some(t => (t as string).trim())) {
+      return NextResponse.json({ error: 'title or titles is required' }, { status: 400 });
+    }
+
+    const items = await addChecklistItems(taskId, list as string[]);
+    revalidateTasks([taskId]);
+
+    return NextResponse.json({ message: 'Checklist items added successfully', items });
+  } catch (error) {
+    console.error('Error adding checklist items:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/tasks/checklist - Tick/untick or rename an item ({ itemId, done?, title?, agentId? })
+// Ticking the last open item completes the parent task
+export async function PATCH(request: NextRequest) {
+  try {
+    const { itemId, done, title, agentId } = await request.json();
+
+    const auth = await authorizeTaskWrite(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    if (!itemId) {
+      return NextResponse.json({ error: 'itemId is required' }, { status: 400 });
+    }
+
+    if (done === undefined && title === undefined) {
+      return NextResponse.json({ error: 'No update fields provided' }, { status: 400 });
+    }
+
+    if (done !== undefined && typeof done !== 'boolean') {
+      return NextResponse.json({ error: 'done must be a boolean' }, { status: 400 });
+    }
+
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      return NextResponse.json({ error: 'title cannot be empty' }, { status: 400 });
+    }
+
+    const { data: item, error } = await supabaseServer
+      .from('task_checklist_items')
+      .select('task_id')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching checklist item:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!item) {
+      return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 });
+    }
+
+    if (title !== undefined) {
+      const { error: renameError } = await supabaseServer
+        .from('task_checklist_items')
+        .update({ title: title.trim() })
+        .eq('id', itemId);
+
+      if (renameError) {
+        console.error('Error renaming checklist item:', renameError);
+        return NextResponse.json({ error: renameError.message }, { status: 500 });
+      }
+    }
+
+    const completedTaskIds = done !== undefined
+      ? await setChecklistItemsDone([itemId], done, auth.agentId)
+      : [];
+
+    revalidateTasks([item.task_id]);
+
+    return NextResponse.json({
+      message: 'Checklist item updated successfully',
+      taskCompleted: completedTaskIds.includes(item.task_id)
+    });
+  } catch (error) {
+    console.error('Error updating checklist item:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/tasks/checklist?id= - Remove an item
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeTaskWrite(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get('id');
+
+    if (!itemId) {
+      return NextResponse.json({ error: 'Checklist item ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_checklist_items')
+      .delete()
+      .eq('id', itemId)
+      .select('task_id');
+
+    if (error) {
+      console.error('Error deleting checklist item:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Removing the last open item can leave the checklist fully done
+    for (const item of data || []) {
+      await completeTaskIfChecklistDone(item.task_id);
+      revalidateTasks([item.task_id]);
+    }
+
+    return NextResponse.json({ message: 'Checklist item deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting checklist item:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { agentNameFieldError, authorizeTaskWrite } from '@/lib/agent-auth';
+import { actorName } from '@/lib/auth-server';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// GET /api/tasks/comments?taskId= - Comment thread of a task, oldest first
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const taskId = searchParams.get('taskId');
+
+  if (!taskId) {
+    return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseServer
+    .from('task_comments')
+    .select(`
+      *,
+      agent:agents(id, name, role)
+    `)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching comments:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ comments: data || [] });
+}
+
+/**
+ * POST /api/tasks/comments
+ * Adds a markdown comment to a task. Agents can call this alongside
+ * /api/agents/report to post intermediate findings.
+ *
+ * Body: {
+ *   taskId: string,
+ *   body: string,          // Markdown
+ *   agentId?: string       // Agent author (defaults to the token's agent)
+ * }
+ * Without an agent token the logged-in user is the author.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, body, agentId, authorName } = await request.json();
+
+    const auth = await authorizeTaskWrite(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const nameError = agentNameFieldError(auth, { authorName });
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    if (typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json({ error: 'body is required' }, { status: 400 });
+    }
+
+    const authorAgentId = auth.agentId;
+
+    // Agent comments keep the agent's name too: agent_id is set to null if the
+    // agent is ever deleted, and the row must still name its author
+    let authorLabel = auth.user ? actorName(auth.user) : null;
+    if (authorAgentId) {
+      const { data: agent, error: agentError } = await supabaseServer
+        .from('agents')
+        .select('name')
+        .eq('id', authorAgentId)
+        .maybeSingle();
+
+      if (agentError) {
+        console.error('Error fetching comment author:', agentError);
+        return NextResponse.json({ error: agentError.message }, { status: 500 });
+      }
+      if (!agent) {
+        return NextResponse.json({ error: 'Task or agent not found' }, { status: 404 });
+      }
+      authorLabel = agent.name;
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_comments')
+      .insert({
+        task_id: taskId,
+        agent_id: authorAgentId,
+        author_name: authorLabel,
+        body: body.trim()
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) {
+      // 23503 = unknown task or agent id
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Task or agent not found' }, { status: 404 });
+      }
+      console.error('Error creating comment:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Surface agent comments in the Mission Control activity feed
+    if (authorAgentId) {
+      await supabaseServer
+        .from('task_history')
+        .insert({
+          task_id: taskId,
+          agent_id: authorAgentId,
+          action: 'commented',
+          note: body.trim().substring(0, 200)
+        });
+    }
+
+    revalidateTasks([taskId]);
+
+    return NextResponse.json({ message: 'Comment created successfully', ...data });
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/tasks/comments?id= - Remove a comment
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeTaskWrite(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const commentId = searchParams.get('id');
+
+    if (!commentId) {
+      return NextResponse.json({ error: 'Comment ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_comments')
+      .delete()
+      .eq('id', commentId)
+      .select('task_id');
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    for (const comment of data || []) {
+      revalidateTasks([comment.task_id]);
+    }
+
+    return NextResponse.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
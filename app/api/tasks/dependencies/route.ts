@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { wouldCreateCycle } from '@/lib/task-dependencies';
+import { authorizeTaskWrite } from '@/lib/agent-auth';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// GET /api/tasks/dependencies?taskId= - Direct blockers and dependents of a task
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const taskId = searchParams.get('taskId');
+
+  if (!taskId) {
+    return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+  }
+
+  const [blockedBy, blocks] = await Promise.all([
+    supabaseServer
+      .from('task_dependencies')
+      .select('id, created_at, task:tasks!blocked_by_task_id(id, title, status)')
+      .eq('task_id', taskId),
+    supabaseServer
+      .from('task_dependencies')
+      .select('id, created_at, task:tasks!task_id(id, title, status)')
+      .eq('blocked_by_task_id', taskId),
+  ]);
+
+  const error = blockedBy.error || blocks.error;
+  if (error) {
+    console.error('Error fetching task dependencies:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    blockedBy: blockedBy.data || [],
+    blocks: blocks.data || []
+  });
+}
+
+// POST /api/tasks/dependencies - Mark taskId as blocked by blockedByTaskId
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, blockedByTaskId } = await request.json();
+
+    const auth = await authorizeTaskWrite(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    if (!taskId || !blockedByTaskId) {
+      return NextResponse.json({ error: 'taskId and blockedByTaskId are required' }, { status: 400 });
+    }
+
+    if (taskId === blockedByTaskId) {
+      return NextResponse.json({ error: 'A task cannot block itself' }, { status: 400 });
+    }
+
+    if (await wouldCreateCycle(taskId, blockedByTaskId)) {
+      return NextResponse.json({ error: 'Dependency would create a cycle' }, { status: 409 });
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_dependencies')
+      .insert({ task_id: taskId, blocked_by_task_id: blockedByTaskId })
+      .select('id')
+      .single();
+
+    if (error) {
+      // 23505 = unique violation, 23503 = unknown task id
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'Dependency already exists' }, { status: 409 });
+      }
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+      }
+      console.error('Error creating dependency:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    revalidateTasks([taskId, blockedByTaskId]);
+
+    return NextResponse.json({ message: 'Dependency created successfully', id: data.id });
+  } catch (error) {
+    console.error('Error creating dependency:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/tasks/dependencies?id= - Remove a dependency link
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeTaskWrite(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dependencyId = searchParams.get('id');
+
+    if (!dependencyId) {
+      return NextResponse.json({ error: 'Dependency ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_dependencies')
+      .delete()
+      .eq('id', dependencyId)
+      .select('task_id, blocked_by_task_id');
+
+    if (error) {
+      console.error('Error deleting dependency:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    revalidateTasks((data || []).flatMap(edge => [edge.task_id, edge.blocked_by_task_id]));
+
+    return NextResponse.json({ message: 'Dependency deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting dependency:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,90 +1,277 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabase-server';
 import { TaskStatus, TaskPriority } from '@/lib/supabase-client';
+import { POSITION_STEP } from '@/lib/task-position';
+import { getOpenBlockers } from '@/lib/task-dependencies';
+import { addChecklistItems } from '@/lib/task-checklist';
+import { diffTask, recordTaskChanges } from '@/lib/task-history';
+import { assigneeError, autoAssignTask, AssignmentDecision, normalizeCapabilities, resolveOwner } from '@/lib/task-assignment';
+import { applyTaskFilters, hasTaskFilters, parseTaskFilters } from '@/lib/task-filters';
+import { afterCursorFilter, decodeCursor, encodeCursor, parseLimit } from '@/lib/pagination';
+import { agentNameFieldError, authorizeTaskRead, authorizeTaskWrite } from '@/lib/agent-auth';
+import { actorName } from '@/lib/auth-server';
+import { revalidateTasks } from '@/lib/revalidation';
+import { withIdempotency } from '@/lib/idempotency';
+import { CLEARED_LEASE, isLeasedByOther } from '@/lib/task-leases';
+import type { CreateTaskResponse } from '@/lib/agent-api';
 
 // Force dynamic rendering - no caching
 export const dynamic = 'force-dynamic';
 
-// GET /api/tasks - Fetch all tasks grouped by status
-export async function GET() {
-  const { data, error } = await supabaseServer
+/**
+ * GET /api/tasks
+ * Without query params: every task grouped by status, as before pagination
+ * existed. With any filter, limit or cursor (or format=page): a paginated
+ * list, oldest first by (created_at, id)
+ *
+ * Query: {
+ *   status?: 'todo,in_progress',       // Comma-separated TaskStatus values
+ *   assignee?: string,                 // Agent id, or 'unassigned'
+ *   priority?: 'high,critical',
+ *   updated_since?: string,            // ISO timestamp
+ *   q?, tag?, from?, to?,              // Same filters as the /tasks board
+ *   limit?: number,                    // Default 50, max 200
+ *   cursor?: string,                   // nextCursor from the previous page
+ *   format?: 'grouped' | 'page'        // Force either shape
+ * }
+ *
+ * Returns: { data: Task[], nextCursor: string | null, limit: number }
+ *   or, grouped: { backlog, todo, inProgress, blocked, done, all }
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeTaskRead(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const filters = parseTaskFilters(searchParams);
+  const query = supabaseServer
     .from('tasks')
     .select(`
       *,
-      assigned_agent:agents(id, name, role, status)
-    `)
-    .order('created_at', { ascending: false });
+      assigned_agent:agents(id, name, role, status),
+      checklist:task_checklist_items(id, done)
+    `);
+  applyTaskFilters(query, filters);
+
+  // Agent scripts and pages written before pagination call it bare and expect
+  // every task grouped by status
+  const format = searchParams.get('format');
+  const paginated = format === 'page' || (format !== 'grouped' && (
+    hasTaskFilters(filters) || searchParams.has('limit') || searchParams.has('cursor')
+  ));
+
+  if (!paginated) {
+    const { data, error } = await query
+      .order('position', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tasks:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      backlog: data?.filter(t => t.status === 'backlog') || [],
+      inProgress: data?.filter(t => t.status === 'in_progress') || [],
+      blocked: data?.filter(t => t.status === 'blocked') || [],
+      done: data?.filter(t => t.status === 'done') || [],
+      todo: data?.filter(t => t.status === 'todo') || [],
+      all: data
+    });
+  }
+
+  const limit = parseLimit(searchParams.get('limit'));
+  if (limit === null) {
+    return NextResponse.json({ error: 'Invalid limit. Must be a positive integer' }, { status: 400 });
+  }
+
+  const rawCursor = searchParams.get('cursor');
+  if (rawCursor) {
+    const cursor = decodeCursor(rawCursor);
+    if (!cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+    query.or(afterCursorFilter(cursor));
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit + 1);
 
   if (error) {
     console.error('Error fetching tasks:', error);
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
-  // Group by status for backward compatibility
-  const grouped = {
-    backlog: data?.filter(t => t.status === 'backlog') || [],
-    inProgress: data?.filter(t => t.status === 'in_progress') || [],
-    done: data?.filter(t => t.status === 'done') || [],
-    todo: data?.filter(t => t.status === 'todo') || [],
-  };
+  const page = (data || []).slice(0, limit);
+  const hasMore = (data || []).length > limit;
 
   return NextResponse.json({
-    ...grouped,
-    all: data
+    data: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    limit
   });
 }
 
-// POST /api/tasks - Create a new task
+/**
+ * POST /api/tasks
+ * Create a new task (deliverables become checklist items)
+ *
+ * Body: {
+ *   title: string,
+ *   description?, priority?, tags?, due_date?, deliverables?: string[],
+ *   owner?: string,                   // Agent name; 409 if it matches several agents
+ *   required_capabilities?: string[], // Matched against agents.capabilities
+ *   auto_assign?: boolean,            // Pick the least-loaded idle capable agent (ignored with owner)
+ *   agentId?                          // Agent creating the task (defaults to the token's agent)
+ * }
+ * The assignment history entry names the token's agent, or else the logged-in user.
+ * Honours Idempotency-Key, so a retried create makes one task (see lib/idempotency.ts)
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+
+    const auth = await authorizeTaskWrite(request, body.agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const nameError = agentNameFieldError(auth, { actor: body.actor });
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
     
     if (!body.title) {
       return NextResponse.json({ error: 'Title is required' }, { status: 400 });
     }
 
-    // Find agent by name if owner is specified
-    let assignedAgentId = null;
-    if (body.owner) {
-      const { data: agent } = await supabaseServer
-        .from('agents')
+    if (body.due_date && Number.isNaN(Date.parse(body.due_date))) {
+      return NextResponse.json({ error: 'Invalid due_date. Must be an ISO date' }, { status: 400 });
+    }
+
+    const deliverables = body.deliverables;
+    if (deliverables !== undefined && deliverables !== null &&
+        (!Array.isArray(deliverables) || !deliverables.every((d: unknown) => typeof d === 'string'))) {
+      return NextResponse.json({ error: 'deliverables must be an array of strings' }, { status: 400 });
+    }
+
+    const capabilities = body.required_capabilities;
+    if (capabilities !== undefined && capabilities !== null &&
+        (!Array.isArray(capabilities) || !capabilities.every((c: unknown) => typeof c === 'string'))) {
+      return NextResponse.json({ error: 'required_capabilities must be an array of strings' }, { status: 400 });
+    }
+    const requiredCapabilities = capabilities ? normalizeCapabilities(capabilities) : [];
+
+    return await withIdempotency(request, 'tasks', auth.agentId, body, async () => {
+      // Find agent by name if owner is specified
+      let assignedAgentId = null;
+      if (body.owner) {
+        const { agent, matches } = await resolveOwner(String(body.owner));
+        if (!agent && matches.length > 1) {
+          return NextResponse.json({
+            error: `Owner "${body.owner}" matches several agents: ${matches.map(m => m.name).join(', ')}`,
+            matches
+          }, { status: 409 });
+        }
+      
+        if (agent) {
+          assignedAgentId = agent.id;
+        }
+      }
+
+      // Append to the bottom of the backlog column
+      const { data: last } = await supabaseServer
+        .from('tasks')
+        .select('position')
+        .eq('status', 'backlog')
+        .not('position', 'is', null)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data: task, error } = await supabaseServer
+        .from('tasks')
+        .insert({
+          title: body.title,
+          description: body.description || null,
+          status: 'backlog' as TaskStatus,
+          priority: (body.priority as TaskPriority) || 'medium',
+          assigned_agent_id: assignedAgentId,
+          tags: body.tags || null,
+          required_capabilities: requiredCapabilities.length > 0 ? requiredCapabilities : null,
+          due_date: body.due_date || null,
+          position: (last?.position ?? 0) + POSITION_STEP
+        })
         .select('id')
-        .ilike('name', `%${body.owner}%`)
         .single();
-      
-      if (agent) {
-        assignedAgentId = agent.id;
+
+      if (error) {
+        console.error('Error creating task:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
       }
-    }
 
-    const { error } = await supabaseServer
-      .from('tasks')
-      .insert({
-        title: body.title,
-        description: body.description || null,
-        status: 'backlog' as TaskStatus,
-        priority: (body.priority as TaskPriority) || 'medium',
-        assigned_agent_id: assignedAgentId,
-        tags: body.deliverables || null
-      });
+      // The task exists from here on: a failure below is reported, not thrown,
+      // so the stored response says so and a retry does not create it again
+      const warnings: string[] = [];
+      if (deliverables) {
+        try {
+          await addChecklistItems(task.id, deliverables);
+        } catch (checklistError) {
+          console.error('Error adding deliverables to new task:', checklistError);
+          warnings.push('Task created without its deliverables: adding the checklist failed');
+        }
+      }
 
-    if (error) {
-      console.error('Error creating task:', error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+      let assignment: AssignmentDecision | null = null;
+      if (body.auto_assign === true && !assignedAgentId) {
+        try {
+          assignment = await autoAssignTask(task.id, { agentId: auth.agentId, actor: auth.user ? actorName(auth.user) : null });
+        } catch (assignError) {
+          console.error('Error auto-assigning new task:', assignError);
+          warnings.push('Task created unassigned: auto-assignment failed');
+        }
+      }
+
+      revalidateTasks([task.id]);
 
-    return NextResponse.json({ message: 'Task created successfully' });
+      const response: CreateTaskResponse = {
+        message: 'Task created successfully',
+        id: task.id,
+        assigned_agent_id: assignment?.agent?.id ?? assignedAgentId,
+        ...(assignment && { assignment: assignment.reason }),
+        ...(warnings.length > 0 && { warnings })
+      };
+      return NextResponse.json(response);
+    });
   } catch (error) {
     console.error('Error creating task:', error);
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 }
 
-// PATCH /api/tasks - Update task (status, priority, assignee, description)
+// PATCH /api/tasks - Update task (status, priority, assignee, description, position, due_date, required_capabilities)
+// Moving to 'blocked' requires blocked_reason; leaving 'blocked' goes through POST /api/tasks/unblock
+// Leaving 'in_progress' ends the lease; an agent cannot change a task another agent holds a lease on
+// Changed fields are logged to task_history, attributed to the token's agent or the logged-in user
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { taskId, title, status, priority, assigned_agent_id, description } = body;
+    const { taskId, title, status, priority, assigned_agent_id, description, position, blocked_reason, due_date, required_capabilities, agentId, actor } = body;
+
+    const auth = await authorizeTaskWrite(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const nameError = agentNameFieldError(auth, { actor });
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
 
     // Build update object with only provided fields
     const updates: Record<string, unknown> = {
@@ -93,13 +280,23 @@ export async function PATCH(request: NextRequest) {
 
     // Handle status update
     if (status !== undefined) {
-      const validStatuses: TaskStatus[] = ['backlog', 'todo', 'in_progress', 'done'];
+      const validStatuses: TaskStatus[] = ['backlog', 'todo', 'in_progress', 'blocked', 'done'];
       if (!validStatuses.includes(status)) {
         return NextResponse.json({ 
           error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` 
         }, { status: 400 });
       }
       updates.status = status;
+      if (status !== 'in_progress') Object.assign(updates, CLEARED_LEASE);
+    }
+
+    // Handle block reason (required when blocking)
+    if (status === 'blocked') {
+      if (typeof blocked_reason !== 'string' || !blocked_reason.trim()) {
+        return NextResponse.json({ error: 'blocked_reason is required when status is blocked' }, { status: 400 });
+      }
+      updates.blocked_reason = blocked_reason.trim();
+      updates.blocked_at = updates.updated_at;
     }
 
     // Handle priority update
@@ -113,8 +310,12 @@ export async function PATCH(request: NextRequest) {
       updates.priority = priority;
     }
 
-    // Handle assignee update
+    // Handle assignee update (null unassigns; otherwise an active agent)
     if (assigned_agent_id !== undefined) {
+      const invalid = await assigneeError(assigned_agent_id);
+      if (invalid) {
+        return NextResponse.json({ error: invalid.error }, { status: invalid.status });
+      }
       updates.assigned_agent_id = assigned_agent_id;
     }
 
@@ -123,11 +324,78 @@ export async function PATCH(request: NextRequest) {
       updates.description = description;
     }
 
+    // Handle board ordering update
+    if (position !== undefined) {
+      if (typeof position !== 'number' || !Number.isFinite(position)) {
+        return NextResponse.json({ error: 'Invalid position. Must be a finite number' }, { status: 400 });
+      }
+      updates.position = position;
+    }
+
+    // Handle due date update (ISO timestamp, or null to fall back to the priority SLA)
+    if (due_date !== undefined) {
+      if (due_date !== null && (typeof due_date !== 'string' || Number.isNaN(Date.parse(due_date)))) {
+        return NextResponse.json({ error: 'Invalid due_date. Must be an ISO date or null' }, { status: 400 });
+      }
+      updates.due_date = due_date === null ? null : new Date(due_date).toISOString();
+    }
+
+    // Handle required capabilities update (null clears the requirement)
+    if (required_capabilities !== undefined) {
+      if (required_capabilities !== null &&
+          (!Array.isArray(required_capabilities) || !required_capabilities.every((c: unknown) => typeof c === 'string'))) {
+        return NextResponse.json({ error: 'required_capabilities must be an array of strings or null' }, { status: 400 });
+      }
+      const normalized = required_capabilities ? normalizeCapabilities(required_capabilities) : [];
+      updates.required_capabilities = normalized.length > 0 ? normalized : null;
+    }
+
     // Need at least one field to update
     if (Object.keys(updates).length === 1) {
       return NextResponse.json({ error: 'No update fields provided' }, { status: 400 });
     }
 
+    if (!taskId && !title) {
+      return NextResponse.json({ error: 'taskId or title is required' }, { status: 400 });
+    }
+
+    // Current state of the targeted task(s), for transition checks and the change log
+    const lookup = supabaseServer
+      .from('tasks')
+      .select('id, status, priority, assigned_agent_id, description, blocked_reason, due_date, required_capabilities, lease_agent_id, lease_expires_at');
+    const { data: matches, error: lookupError } = taskId
+      ? await lookup.eq('id', taskId)
+      : await lookup.eq('title', title);
+
+    if (lookupError) {
+      console.error('Error fetching task:', lookupError);
+      return NextResponse.json({ error: lookupError.message }, { status: 500 });
+    }
+
+    const targets = matches || [];
+
+    // An agent may not change a task another agent is working under a lease
+    if (auth.agentId && targets.some(t => isLeasedByOther(t, auth.agentId!))) {
+      return NextResponse.json({ error: 'Task is leased by another agent' }, { status: 409 });
+    }
+
+    if (status !== undefined && status !== 'blocked' && targets.some(t => t.status === 'blocked')) {
+      return NextResponse.json({
+        error: 'Task is blocked. Unblock it via POST /api/tasks/unblock'
+      }, { status: 409 });
+    }
+
+    // A task cannot start while any of its blockers is still open
+    if (status === 'in_progress') {
+      const openBlockers = await getOpenBlockers(targets.map(t => t.id));
+      if (openBlockers.size > 0) {
+        return NextResponse.json({
+          error: 'Task is blocked by tasks that are not done yet',
+          blockers: Array.from(openBlockers.values()).flat()
+        }, { status: 409 });
+      }
+    }
+
     // Update by ID or title
     const query = supabaseServer
       .from('tasks')
@@ -135,10 +403,8 @@ export async function PATCH(request: NextRequest) {
 
     if (taskId) {
       query.eq('id', taskId);
-    } else if (title) {
-      query.eq('title', title);
     } else {
-      return NextResponse.json({ error: 'taskId or title is required' }, { status: 400 });
+      query.eq('title', title);
     }
 
     const { error } = await query;
@@ -148,6 +414,21 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    // Record before/after values of every changed field
+    await recordTaskChanges(targets.map(t => {
+      const newlyBlocked = status === 'blocked' && t.status !== 'blocked';
+      return {
+        taskId: t.id,
+        action: newlyBlocked ? 'blocked' : 'updated',
+        changes: diffTask(t, updates),
+        note: newlyBlocked ? updates.blocked_reason as string : undefined,
+        agentId: auth.agentId,
+        actor: auth.user ? actorName(auth.user) : null
+      };
+    }));
+
+    revalidateTasks(targets.map(t => t.id));
+
     return NextResponse.json({ message: 'Task updated successfully' });
   } catch (error) {
     console.error('Error updating task:', error);
@@ -158,6 +439,11 @@ export async function PATCH(request: NextRequest) {
 // DELETE /api/tasks - Delete a task
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = await authorizeTaskWrite(request);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
     const { searchParams } = new URL(request.url);
     const taskId = searchParams.get('id');
 
@@ -175,6 +461,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    revalidateTasks([taskId]);
+
     return NextResponse.json({ message: 'Task deleted successfully' });
   } catch (error) {
     console.error('Error deleting task:', error);
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { supabaseServer } from '@/lib/supabase-server';
+import { TaskPriority } from '@/lib/supabase-client';
+import { DEFAULT_TIMEZONE, Schedule, nextRunAt, validateSchedule } from '@/lib/schedule';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+const validPriorities: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// Fields a client may set on a template (everything else is managed state)
+function pickTemplateFields(body: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const key of [
+    'name', 'enabled', 'title', 'description', 'priority', 'assigned_agent_id',
+    'tags', 'checklist', 'due_in_hours', 'schedule_kind', 'schedule_expr', 'timezone'
+  ]) {
+    if (body[key] !== undefined) fields[key] = body[key];
+  }
+  return fields;
+}
+
+function validateTemplateFields(fields: Record<string, unknown>): string | null {
+  if (fields.name !== undefined && (typeof fields.name !== 'string' || !fields.name.trim())) {
+    return 'name cannot be empty';
+  }
+  if (fields.title !== undefined && (typeof fields.title !== 'string' || !fields.title.trim())) {
+    return 'title cannot be empty';
+  }
+  if (fields.enabled !== undefined && typeof fields.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  if (fields.priority !== undefined && !validPriorities.includes(fields.priority as TaskPriority)) {
+    return `Invalid priority. Must be one of: ${validPriorities.join(', ')}`;
+  }
+  for (const key of ['tags', 'checklist']) {
+    const value = fields[key];
+    if (value !== undefined && value !== null && (!Array.isArray(value) || !value.every(v => typeof v === 'string'))) {
+      return `${key} must be an array of strings`;
+    }
+  }
+  if (fields.due_in_hours !== undefined && fields.due_in_hours !== null
+    && (!Number.isInteger(fields.due_in_hours) || (fields.due_in_hours as number) <= 0)) {
+    return 'due_in_hours must be a positive integer';
+  }
+  return null;
+}
+
+// GET /api/tasks/templates - All recurring task templates
+export async function GET() {
+  const { data, error } = await supabaseServer
+    .from('task_templates')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching task templates:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ templates: data || [] });
+}
+
+/**
+ * POST /api/tasks/templates
+ * Creates a recurring task template
+ *
+ * Body: {
+ *   name: string, title: string, description?, priority?, assigned_agent_id?,
+ *   tags?: string[], checklist?: string[], due_in_hours?: number,
+ *   schedule_kind: 'cron' | 'every' | 'at', schedule_expr: string, timezone?: string,
+ *   enabled?: boolean
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const fields = pickTemplateFields(await request.json());
+
+    if (!fields.name || !fields.title) {
+      return NextResponse.json({ error: 'name and title are required' }, { status: 400 });
+    }
+
+    const invalid = validateTemplateFields(fields);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const schedule = { ...fields, timezone: fields.timezone || DEFAULT_TIMEZONE } as unknown as Schedule;
+    const scheduleError = validateSchedule(schedule);
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_templates')
+      .insert({
+        ...fields,
+        timezone: schedule.timezone,
+        next_run_at: nextRunAt(schedule)?.toISOString() ?? null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // 23505 = unique violation on name
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A template with this name already exists' }, { status: 409 });
+      }
+      console.error('Error creating task template:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    revalidatePath('/tasks/templates');
+
+    return NextResponse.json({ message: 'Template created successfully', template: data });
+  } catch (error) {
+    console.error('Error creating task template:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/tasks/templates - Update a template ({ id, ...fields })
+// Changing the schedule or re-enabling recomputes next_run_at from now
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const fields = pickTemplateFields(body);
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    if (Object.keys(fields).length === 0) {
+      return NextResponse.json({ error: 'No update fields provided' }, { status: 400 });
+    }
+
+    const invalid = validateTemplateFields(fields);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data: current, error: fetchError } = await supabaseServer
+      .from('task_templates')
+      .select('schedule_kind, schedule_expr, timezone, enabled')
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching task template:', fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    if (!current) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const updates: Record<string, unknown> = { ...fields, updated_at: new Date().toISOString() };
+    const scheduleChanged = ['schedule_kind', 'schedule_expr', 'timezone'].some(k => fields[k] !== undefined);
+    const reEnabled = fields.enabled === true && !current.enabled;
+
+    if (scheduleChanged || reEnabled) {
+      const schedule = { ...current, ...fields } as Schedule;
+      const scheduleError = validateSchedule(schedule);
+      if (scheduleError) {
+        return NextResponse.json({ error: scheduleError }, { status: 400 });
+      }
+      updates.next_run_at = nextRunAt(schedule)?.toISOString() ?? null;
+    }
+
+    const { data, error } = await supabaseServer
+      .from('task_templates')
+      .update(updates)
+      .eq('id', body.id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A template with this name already exists' }, { status: 409 });
+      }
+      console.error('Error updating task template:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    revalidatePath('/tasks/templates');
+
+    return NextResponse.json({ message: 'Template updated successfully', template: data });
+  } catch (error) {
+    console.error('Error updating task template:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/tasks/templates?id= - Delete a template (tasks it created are kept)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const templateId = searchParams.get('id');
+
+    if (!templateId) {
+      return NextResponse.json({ error: 'Template ID is required' }, { status: 400 });
+    }
+
+    const { error } = await supabaseServer
+      .from('task_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting task template:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    revalidatePath('/tasks/templates');
+
+    return NextResponse.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting task template:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { supabaseServer } from '@/lib/supabase-server';
+import { TaskTemplate } from '@/lib/supabase-client';
+import { materializeTemplate, runDueTemplates } from '@/lib/task-templates';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/tasks/templates/run
+ * Materializes tasks from templates. Without a body it creates a task for
+ * every template that is due (POST /api/cron/sync does this on every Gateway
+ * sync, so this is for catching up by hand). With a templateId it creates one
+ * task right away ("run now"), leaving the template's schedule untouched.
+ *
+ * Body?: { templateId?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { templateId } = await request.json().catch(() => ({}));
+
+    if (templateId) {
+      const { data: template, error } = await supabaseServer
+        .from('task_templates')
+        .select('*')
+        .eq('id', templateId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching task template:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      if (!template) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+      }
+
+      const taskId = await materializeTemplate(template as TaskTemplate);
+      revalidateTasks([taskId]);
+      revalidatePath('/tasks/templates');
+
+      return NextResponse.json({
+        message: 'Task created from template',
+        results: [{ templateId, name: template.name, taskId }]
+      });
+    }
+
+    const results = await runDueTemplates();
+    if (results.length > 0) {
+      revalidateTasks();
+      revalidatePath('/tasks/templates');
+    }
+
+    return NextResponse.json({
+      message: `${results.filter(r => r.taskId).length} tasks created from templates`,
+      results
+    });
+  } catch (error) {
+    console.error('Error running task templates:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
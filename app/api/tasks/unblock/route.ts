@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { TaskStatus } from '@/lib/supabase-client';
+import { getOpenBlockers } from '@/lib/task-dependencies';
+import { recordTaskChanges } from '@/lib/task-history';
+import { agentNameFieldError, authorizeTaskWrite } from '@/lib/agent-auth';
+import { actorName } from '@/lib/auth-server';
+import { revalidateTasks } from '@/lib/revalidation';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/tasks/unblock
+ * Moves a blocked task back into the workflow and records who unblocked it:
+ * the token's agent, or else the logged-in user
+ *
+ * Body: {
+ *   taskId: string,
+ *   agentId?: string,       // Agent unblocking the task (defaults to the token's agent)
+ *   status?: TaskStatus,    // Where the task goes next (default: 'todo')
+ *   position?: number,      // Board position in that column (drag and drop)
+ *   note?: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { taskId, unblockedBy, agentId, status = 'todo', position, note } = await request.json();
+
+    const auth = await authorizeTaskWrite(request, agentId);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const nameError = agentNameFieldError(auth, { unblockedBy });
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const actingAgentId = auth.agentId;
+
+    const validStatuses: TaskStatus[] = ['backlog', 'todo', 'in_progress', 'done'];
+    if (!validStatuses.includes(status)) {
+      return NextResponse.json({
+        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (position !== undefined && (typeof position !== 'number' || !Number.isFinite(position))) {
+      return NextResponse.json({ error: 'Invalid position. Must be a finite number' }, { status: 400 });
+    }
+
+    const { data: task, error: taskError } = await supabaseServer
+      .from('tasks')
+      .select('id, status, blocked_reason')
+      .eq('id', taskId)
+      .maybeSingle();
+
+    if (taskError) {
+      console.error('Error fetching task:', taskError);
+      return NextResponse.json({ error: taskError.message }, { status: 500 });
+    }
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (task.status !== 'blocked') {
+      return NextResponse.json({ error: 'Task is not blocked' }, { status: 409 });
+    }
+
+    // Unblocking straight into progress still honours task dependencies
+    if (status === 'in_progress') {
+      const openBlockers = await getOpenBlockers([taskId]);
+      if (openBlockers.size > 0) {
+        return NextResponse.json({
+          error: 'Task is blocked by tasks that are not done yet',
+          blockers: openBlockers.get(taskId)
+        }, { status: 409 });
+      }
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabaseServer
+      .from('tasks')
+      .update({
+        status,
+        blocked_reason: null,
+        blocked_at: null,
+        ...(position !== undefined ? { position } : {}),
+        updated_at: now
+      })
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Error unblocking task:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const who = actingAgentId ? `agent ${actingAgentId}` : actorName(auth.user!);
+    await recordTaskChanges([{
+      taskId,
+      action: 'unblocked',
+      changes: {
+        status: { from: 'blocked', to: status },
+        blocked_reason: { from: task.blocked_reason, to: null }
+      },
+      note: `Unblocked by ${who} (was: ${task.blocked_reason || 'no reason given'})${note ? ` - ${note}` : ''}`,
+      agentId: actingAgentId,
+      actor: actingAgentId ? null : who
+    }]);
+
+    revalidateTasks([taskId]);
+
+    return NextResponse.json({ message: 'Task unblocked successfully', status });
+  } catch (error) {
+    console.error('Error unblocking task:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
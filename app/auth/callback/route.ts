@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import { safeNextPath } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/auth-server';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// GET /auth/callback?code=...&next=/tasks - Landing page of the magic link.
+// Exchanges the link's code (or token_hash, with custom email templates) for a
+// session cookie and continues to `next`.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const tokenHash = searchParams.get('token_hash');
+  const type = searchParams.get('type') as EmailOtpType | null;
+  const next = safeNextPath(searchParams.get('next'));
+
+  const supabase = createSupabaseServerClient();
+
+  const { error } = code
+    ? await supabase.auth.exchangeCodeForSession(code)
+    : tokenHash && type
+      ? await supabase.auth.verifyOtp({ token_hash: tokenHash, type })
+      : { error: new Error('Missing code') };
+
+  if (error) {
+    console.error('Error completing login:', error);
+    const login = new URL('/login', request.url);
+    login.searchParams.set('error', 'link');
+    login.searchParams.set('next', next);
+    return NextResponse.redirect(login);
+  }
+
+  return NextResponse.redirect(new URL(next, request.url));
+}
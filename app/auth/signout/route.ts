@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/auth-server';
+
+// Force dynamic rendering - no caching
+export const dynamic = 'force-dynamic';
+
+// POST /auth/signout - End the session and go back to the login page
+export async function POST(request: NextRequest) {
+  const supabase = createSupabaseServerClient();
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    console.error('Error signing out:', error);
+  }
+
+  // 303 so the browser follows with a GET
+  return NextResponse.redirect(new URL('/login', request.url), { status: 303 });
+}
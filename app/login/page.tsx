@@ -0,0 +1,29 @@
+import { LoginForm } from '@/components/LoginForm';
+import { safeNextPath } from '@/lib/auth';
+
+interface PageProps {
+  searchParams: { [key: string]: string | string[] | undefined };
+}
+
+const errorMessages: Record<string, string> = {
+  link: 'O link expirou ou já foi usado. Peça um novo.',
+  forbidden: 'Sua conta não tem permissão para esta página.',
+};
+
+export default function LoginPage({ searchParams }: PageProps) {
+  const next = safeNextPath(typeof searchParams.next === 'string' ? searchParams.next : null);
+  const error = typeof searchParams.error === 'string' ? errorMessages[searchParams.error] : undefined;
+
+  return (
+    <div className="min-h-[calc(100vh-64px)] flex items-center justify-center p-8">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-2xl p-8 shadow-xl">
+        <h1 className="text-2xl font-bold text-white mb-1">Entrar</h1>
+        <p className="text-sm text-zinc-500 mb-6">Acesso ao dashboard por magic link.</p>
+        {error && (
+          <p className="mb-4 text-sm text-amber-400 bg-amber-950/40 border border-amber-900 rounded-lg px-3 py-2">{error}</p>
+        )}
+        <LoginForm next={next} />
+      </div>
+    </div>
+  );
+}
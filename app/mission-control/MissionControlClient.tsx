@@ -1,18 +1,27 @@
 'use client';
 
-import { Agent, Task, TaskHistory, getRecentActivity, getAgents, getTasks } from '@/lib/supabase-client';
+import { Agent, AgentBlocker, AgentHeartbeat, Task, TaskHistory, getRecentActivity, getAgents, getTasks, getLatestHeartbeats, getOpenAgentBlockers } from '@/lib/supabase-client';
+import { createSupabaseBrowserClient } from '@/lib/auth';
+import { formatOverdue, isOverdue } from '@/lib/task-sla';
+import { isHeartbeatStale } from '@/lib/heartbeat';
+import { ExportButtons } from '@/components/ExportButtons';
 import { useState, useEffect } from 'react';
 
 interface Props {
   agents: Agent[];
   tasks: Task[];
   initialActivities: TaskHistory[];
+  // Latest heartbeat per agent id
+  heartbeats: Record<string, AgentHeartbeat>;
+  // Open blockers from agent reports
+  blockers: AgentBlocker[];
   stats: {
     activeAgents: number;
     totalAgents: number;
     pendingTasks: number;
     completedTasks: number;
     inProgressTasks: number;
+    blockedTasks: number;
     totalTasks: number;
   };
 }
@@ -20,13 +29,16 @@ interface Props {
 // Dashboard deploy date (2026-02-17)
 const DASHBOARD_DEPLOY_DATE = new Date('2026-02-17T10:35:00-03:00');
 
-export default function MissionControlClient({ agents: initialAgents, tasks: initialTasks, initialActivities, stats: initialStats }: Props) {
+export default function MissionControlClient({ agents: initialAgents, tasks: initialTasks, initialActivities, heartbeats: initialHeartbeats, blockers: initialBlockers, stats: initialStats }: Props) {
   const [currentTime, setCurrentTime] = useState(new Date());
   
   // State for live data
   const [agents, setAgents] = useState<Agent[]>(initialAgents);
   const [tasks, setTasks] = useState<Task[]>(initialTasks);
   const [activities, setActivities] = useState<TaskHistory[]>(initialActivities);
+  const [heartbeats, setHeartbeats] = useState<Record<string, AgentHeartbeat>>(initialHeartbeats);
+  const [blockers, setBlockers] = useState<AgentBlocker[]>(initialBlockers);
+  const [blockerError, setBlockerError] = useState<string | null>(null);
   const [stats, setStats] = useState(initialStats);
 
   useEffect(() => {
@@ -36,13 +48,19 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
 
   // Poll for live activity feed and refresh data
   useEffect(() => {
+    // Polls as the logged-in user; the anon key alone reads nothing
+    const supabase = createSupabaseBrowserClient();
     const fetchData = async () => {
       try {
-        const [newActivities, newAgents, newTasks] = await Promise.all([
-          getRecentActivity(20),
-          getAgents(),
-          getTasks()
+        const [newActivities, newAgents, newTasks, newHeartbeats, newBlockers] = await Promise.all([
+          getRecentActivity(supabase, 20),
+          getAgents(supabase),
+          getTasks(supabase),
+          getLatestHeartbeats(supabase),
+          getOpenAgentBlockers(supabase)
         ]);
+        setHeartbeats(newHeartbeats);
+        setBlockers(newBlockers);
         
         if (newActivities && newActivities.length > 0) {
           setActivities(newActivities);
@@ -58,6 +76,7 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
             pendingTasks: newTasks.filter(t => t.status !== 'done').length,
             completedTasks: newTasks.filter(t => t.status === 'done').length,
             inProgressTasks: newTasks.filter(t => t.status === 'in_progress').length,
+            blockedTasks: newTasks.filter(t => t.status === 'blocked').length,
             totalTasks: newTasks.length
           }));
         }
@@ -106,14 +125,34 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
     return `${hours}h ${mins}m`;
   };
 
-  // Check if agent is truly active (heartbeat within last 15 minutes)
+  // Check if agent is truly active (recent heartbeat, see lib/heartbeat.ts)
   const isAgentActive = (agent: Agent): boolean => {
-    if (!agent.last_heartbeat) return false;
-    const last = new Date(agent.last_heartbeat);
-    const diff = currentTime.getTime() - last.getTime();
-    return diff < 15 * 60 * 1000; // 15 minutes
+    return !isHeartbeatStale(agent.last_heartbeat, currentTime.getTime());
+  };
+
+  // Resolving needs the operator role (middleware.ts); viewers get the 403 message
+  const resolveBlocker = async (blocker: AgentBlocker) => {
+    setBlockerError(null);
+    try {
+      const response = await fetch('/api/agents/blockers', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ blockerId: blocker.id })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      setBlockers(prev => prev.filter(b => b.id !== blocker.id));
+    } catch (err) {
+      console.error('Failed to resolve blocker:', err);
+      setBlockerError(err instanceof Error ? err.message : 'Request failed');
+    }
   };
 
+  // Open tasks past their due date (or the SLA for their priority)
+  const overdueTasks = tasks.filter(t => isOverdue(t, currentTime.getTime()));
+
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-100">
       {/* Header */}
@@ -129,6 +168,7 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
             </div>
           </div>
           <div className="flex items-center gap-6 text-sm">
+            <ExportButtons datasets={['tasks', 'task_history', 'cron_runs', 'reports']} />
             <div className="text-zinc-400 font-mono" suppressHydrationWarning>
               {currentTime.toLocaleTimeString('pt-BR')}
             </div>
@@ -141,7 +181,7 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
 
       <main className="max-w-7xl mx-auto p-4 sm:p-6 space-y-6">
         {/* Stats Grid */}
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
           <StatCard
             title="Agentes Ativos"
             value={agents.filter(a => isAgentActive(a)).length.toString()}
@@ -156,6 +196,13 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
             icon="📋"
             color="amber"
           />
+          <StatCard
+            title="Bloqueadas"
+            value={stats.blockedTasks.toString()}
+            subtext="aguardando desbloqueio"
+            icon="⛔"
+            color="red"
+          />
           <StatCard
             title="Completadas"
             value={stats.completedTasks.toString()}
@@ -172,6 +219,71 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
           />
         </div>
 
+        {/* Overdue alert */}
+        {overdueTasks.length > 0 && (
+          <div className="bg-red-500/5 border border-red-500/30 rounded-xl px-4 py-3">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="font-bold text-red-400 text-sm">⏰ {overdueTasks.length} TASKS ATRASADAS</h2>
+              <a href="/tasks" className="text-xs text-zinc-500 hover:text-zinc-300">Ver board →</a>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {overdueTasks.slice(0, 6).map(task => (
+                <a
+                  key={task.id}
+                  href={`/tasks/${task.id}`}
+                  className="text-xs px-2 py-1 rounded bg-zinc-900/80 border border-red-500/20 text-zinc-300 hover:border-red-500/40 transition-colors"
+                >
+                  {task.title} <span className="text-red-400">· {formatOverdue(task, currentTime.getTime())}</span>
+                </a>
+              ))}
+              {overdueTasks.length > 6 && (
+                <span className="text-xs px-2 py-1 text-zinc-500">+{overdueTasks.length - 6}</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Open blockers from agent reports */}
+        {blockers.length > 0 && (
+          <div className="bg-amber-500/5 border border-amber-500/30 rounded-xl px-4 py-3">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="font-bold text-amber-400 text-sm">🚧 {blockers.length} BLOCKERS ABERTOS</h2>
+              {blockerError && <span className="text-xs text-red-400">{blockerError}</span>}
+            </div>
+            <div className="divide-y divide-zinc-800/60">
+              {blockers.slice(0, 8).map(blocker => (
+                <div key={blocker.id} className="py-2 flex items-start justify-between gap-3 text-xs">
+                  <div className="min-w-0">
+                    <div className="text-zinc-200">{blocker.description}</div>
+                    <div className="text-zinc-500 mt-0.5">
+                      <a href={`/agents/${blocker.agent_id}`} className="text-blue-400 hover:text-blue-300">
+                        {blocker.agent?.name || 'Agent'}
+                      </a>
+                      {blocker.task && (
+                        <>
+                          {' · '}
+                          <a href={`/tasks/${blocker.task.id}`} className="hover:text-zinc-300">{blocker.task.title}</a>
+                        </>
+                      )}
+                      {' · '}desde {new Date(blocker.first_reported_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                      {blocker.report_count > 1 && ` · ${blocker.report_count} reports`}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => resolveBlocker(blocker)}
+                    className="shrink-0 px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 transition-colors"
+                  >
+                    Resolver
+                  </button>
+                </div>
+              ))}
+              {blockers.length > 8 && (
+                <div className="py-2 text-xs text-zinc-500">+{blockers.length - 8}</div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Main Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Agents Panel - Enhanced */}
@@ -186,6 +298,7 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
               {agents.map(agent => {
                 const currentTask = getCurrentTask(agent.id);
                 const isActive = isAgentActive(agent);
+                const heartbeat = heartbeats[agent.id];
                 
                 return (
                   <div key={agent.id} className="px-4 py-3 hover:bg-zinc-800/30 transition-colors">
@@ -215,10 +328,28 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
                         <div className="text-xs text-zinc-300 truncate">{currentTask.title}</div>
                       </div>
                     )}
+
+                    {/* Latest heartbeat details */}
+                    {isActive && heartbeat && (heartbeat.status_text || heartbeat.progress !== null) && (
+                      <div className="mt-2 ml-5 space-y-1">
+                        {heartbeat.status_text && (
+                          <div className="text-xs text-zinc-400 truncate">{heartbeat.status_text}</div>
+                        )}
+                        {heartbeat.progress !== null && (
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-1 rounded-full bg-zinc-800 overflow-hidden">
+                              <div className="h-full bg-blue-500 rounded-full" style={{ width: `${heartbeat.progress}%` }}></div>
+                            </div>
+                            <span className="text-[10px] text-zinc-500 font-mono">{heartbeat.progress}%</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     
                     {/* Last Heartbeat */}
                     <div className="mt-1 ml-5 text-[10px] text-zinc-600">
                       Último ping: {getTimeSinceHeartbeat(agent.last_heartbeat)}
+                      {heartbeat?.tokens_used != null && ` • ${heartbeat.tokens_used.toLocaleString('pt-BR')} tokens`}
                     </div>
                   </div>
                 );
@@ -259,6 +390,11 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
                         activity.action === 'wake' ? 'text-green-400 font-bold' :
                         activity.action === 'idle' ? 'text-yellow-400 font-bold' :
                         activity.action === 'error' ? 'text-red-400 font-bold' :
+                        activity.action === 'blocked' ? 'text-red-400 font-bold' :
+                        activity.action === 'unblocked' ? 'text-emerald-400 font-bold' :
+                        activity.action === 'blocker_opened' ? 'text-amber-400 font-bold' :
+                        activity.action === 'blocker_resolved' ? 'text-emerald-400 font-bold' :
+                        activity.action === 'commented' ? 'text-blue-400 font-bold' :
                         'text-zinc-400'
                       }>
                         {activity.action.toUpperCase()}
@@ -281,7 +417,7 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
           </div>
         </div>
 
-        {/* Tasks Pipeline - Enhanced with 4 columns */}
+        {/* Tasks Pipeline - Enhanced with 5 columns */}
         <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
           <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
             <h2 className="font-bold text-zinc-300">TASK PIPELINE</h2>
@@ -295,31 +431,49 @@ export default function MissionControlClient({ agents: initialAgents, tasks: ini
               <span className="text-xs px-2 py-1 rounded bg-blue-500/20 text-blue-400">
                 {stats.inProgressTasks} in progress
               </span>
+              <span className="text-xs px-2 py-1 rounded bg-red-500/20 text-red-400">
+                {stats.blockedTasks} blocked
+              </span>
+              {overdueTasks.length > 0 && (
+                <span className="text-xs px-2 py-1 rounded bg-red-500/20 text-red-300">
+                  {overdueTasks.length} overdue
+                </span>
+              )}
               <span className="text-xs px-2 py-1 rounded bg-emerald-500/20 text-emerald-400">
                 {stats.completedTasks} done
               </span>
             </div>
           </div>
-          <div className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="p-4 grid grid-cols-1 md:grid-cols-5 gap-3">
             <PipelineColumn
               title="📥 Backlog"
               tasks={tasks.filter(t => t.status === 'backlog').slice(0, 4)}
+              now={currentTime.getTime()}
               color="zinc"
             />
             <PipelineColumn
               title="📝 Todo"
               tasks={tasks.filter(t => t.status === 'todo').slice(0, 4)}
+              now={currentTime.getTime()}
               color="purple"
             />
             <PipelineColumn
               title="🔄 In Progress"
               tasks={tasks.filter(t => t.status === 'in_progress').slice(0, 4)}
+              now={currentTime.getTime()}
               color="blue"
               highlight
             />
+            <PipelineColumn
+              title="⛔ Blocked"
+              tasks={tasks.filter(t => t.status === 'blocked').slice(0, 4)}
+              now={currentTime.getTime()}
+              color="red"
+            />
             <PipelineColumn
               title="✅ Done"
               tasks={tasks.filter(t => t.status === 'done').slice(0, 4)}
+              now={currentTime.getTime()}
               color="emerald"
             />
           </div>
@@ -358,13 +512,14 @@ function StatCard({ title, value, subtext, icon, color }: {
   value: string;
   subtext: string;
   icon: string;
-  color: 'blue' | 'emerald' | 'amber' | 'purple';
+  color: 'blue' | 'emerald' | 'amber' | 'purple' | 'red';
 }) {
   const colorClasses = {
     blue: 'border-blue-500/30 bg-blue-500/5',
     emerald: 'border-emerald-500/30 bg-emerald-500/5',
     amber: 'border-amber-500/30 bg-amber-500/5',
     purple: 'border-purple-500/30 bg-purple-500/5',
+    red: 'border-red-500/30 bg-red-500/5',
   };
 
   return (
@@ -379,10 +534,11 @@ function StatCard({ title, value, subtext, icon, color }: {
   );
 }
 
-function PipelineColumn({ title, tasks, color, highlight }: {
+function PipelineColumn({ title, tasks, now, color, highlight }: {
   title: string;
   tasks: Task[];
-  color: 'zinc' | 'blue' | 'emerald' | 'purple';
+  now: number;
+  color: 'zinc' | 'blue' | 'emerald' | 'purple' | 'red';
   highlight?: boolean;
 }) {
   const colorClasses = {
@@ -390,6 +546,7 @@ function PipelineColumn({ title, tasks, color, highlight }: {
     blue: 'border-blue-500/30 bg-blue-500/5',
     emerald: 'border-emerald-500/30 bg-emerald-500/5',
     purple: 'border-purple-500/30 bg-purple-500/5',
+    red: 'border-red-500/30 bg-red-500/5',
   };
 
   return (
@@ -402,6 +559,9 @@ function PipelineColumn({ title, tasks, color, highlight }: {
           tasks.map(task => (
             <div key={task.id} className="text-xs p-2 rounded bg-zinc-800/50 border border-zinc-700/50 hover:border-zinc-600 transition-colors">
               <div className="font-medium text-zinc-300 truncate mb-1">{task.title}</div>
+              {task.status === 'blocked' && task.blocked_reason && (
+                <div className="text-red-400/80 text-[10px] truncate mb-1">{task.blocked_reason}</div>
+              )}
               <div className="flex items-center justify-between">
                 {task.assigned_agent ? (
                   <div className="text-zinc-500 text-[10px] flex items-center gap-1">
@@ -410,9 +570,14 @@ function PipelineColumn({ title, tasks, color, highlight }: {
                 ) : (
                   <div className="text-zinc-600 text-[10px]">Não atribuído</div>
                 )}
-                {task.priority === 'high' && (
-                  <span className="text-[9px] px-1 py-0.5 rounded bg-red-500/20 text-red-400">HIGH</span>
-                )}
+                <div className="flex gap-1">
+                  {isOverdue(task, now) && (
+                    <span className="text-[9px] px-1 py-0.5 rounded bg-red-500/20 text-red-300">OVERDUE</span>
+                  )}
+                  {task.priority === 'high' && (
+                    <span className="text-[9px] px-1 py-0.5 rounded bg-red-500/20 text-red-400">HIGH</span>
+                  )}
+                </div>
               </div>
             </div>
           ))
@@ -1,13 +1,19 @@
-import { getAgents, getTasks, getRecentActivity, TaskHistory } from '@/lib/supabase-client';
+import { getRecentActivity, getLatestHeartbeats, getOpenAgentBlockers, TaskHistory } from '@/lib/supabase-client';
+import { getCachedAgents, getCachedTasks } from '@/lib/cached-data';
+import { createSupabaseServerClient } from '@/lib/auth-server';
 import MissionControlClient from './MissionControlClient';
 
-export const revalidate = 10; // Revalidate every 10 seconds
+// Reads as the logged-in user (session cookies), so it renders per request
+export const dynamic = 'force-dynamic';
 
 export default async function MissionControl() {
-  const [agents, tasks, activities] = await Promise.all([
-    getAgents(),
-    getTasks(),
-    getRecentActivity(20)
+  const supabase = createSupabaseServerClient();
+  const [agents, tasks, activities, heartbeats, blockers] = await Promise.all([
+    getCachedAgents(),
+    getCachedTasks(),
+    getRecentActivity(supabase, 20),
+    getLatestHeartbeats(supabase),
+    getOpenAgentBlockers(supabase)
   ]);
 
   // Calculate stats
@@ -15,18 +21,22 @@ export default async function MissionControl() {
   const pendingTasks = tasks.filter(t => t.status !== 'done').length;
   const completedTasks = tasks.filter(t => t.status === 'done').length;
   const inProgressTasks = tasks.filter(t => t.status === 'in_progress').length;
+  const blockedTasks = tasks.filter(t => t.status === 'blocked').length;
 
   return (
     <MissionControlClient
       agents={agents}
       tasks={tasks}
       initialActivities={activities}
+      heartbeats={heartbeats}
+      blockers={blockers}
       stats={{
         activeAgents,
         totalAgents: agents.length,
         pendingTasks,
         completedTasks,
         inProgressTasks,
+        blockedTasks,
         totalTasks: tasks.length
       }}
     />
@@ -1,9 +1,15 @@
 import { notFound } from 'next/navigation';
 import { TaskDetailClient } from '@/components/TaskDetailClient';
-import { supabase } from '@/lib/supabase-client';
-import { Task, Agent } from '@/lib/supabase-client';
+import { TaskDependencies } from '@/components/TaskDependencies';
+import { TaskChecklist } from '@/components/TaskChecklist';
+import { TaskComments } from '@/components/TaskComments';
+import { TaskTimeline } from '@/components/TaskTimeline';
+import { getTaskDependencyChain, getTaskChecklist, getTaskComments, getTaskHistory } from '@/lib/supabase-client';
+import { Task, Agent, TaskSummary } from '@/lib/supabase-client';
+import { createSupabaseServerClient } from '@/lib/auth-server';
 
-export const revalidate = 30; // ISR: Revalidate every 30 seconds
+// Reads as the logged-in user (session cookies), so it renders per request
+export const dynamic = 'force-dynamic';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -11,6 +17,7 @@ interface PageProps {
 
 export default async function TaskDetailPage({ params }: PageProps) {
   const { id } = await params;
+  const supabase = createSupabaseServerClient();
   
   // Fetch task with agent info
   const { data: task, error } = await supabase
@@ -30,18 +37,28 @@ export default async function TaskDetailPage({ params }: PageProps) {
   const { data: agents } = await supabase
     .from('agents')
     .select('id, name, role, status')
+    .is('retired_at', null)
     .order('name');
 
-  return <TaskDetailClient task={task as Task} agents={agents as Agent[]} />;
-}
-
-// Generate static params for known tasks
-export async function generateStaticParams() {
-  const { data: tasks } = await supabase
-    .from('tasks')
-    .select('id');
+  // Checklist, comments, history, dependency chain and the tasks that could be added as blockers
+  const [checklist, comments, history, chain, { data: otherTasks }] = await Promise.all([
+    getTaskChecklist(supabase, id),
+    getTaskComments(supabase, id),
+    getTaskHistory(supabase, id),
+    getTaskDependencyChain(supabase, id),
+    supabase
+      .from('tasks')
+      .select('id, title, status')
+      .neq('id', id)
+      .order('title')
+  ]);
 
-  return tasks?.map((task) => ({
-    id: task.id,
-  })) || [];
+  return (
+    <TaskDetailClient task={task as Task} agents={agents as Agent[]}>
+      <TaskChecklist taskId={id} items={checklist} />
+      <TaskDependencies taskId={id} chain={chain} candidates={(otherTasks || []) as TaskSummary[]} />
+      <TaskComments taskId={id} comments={comments} />
+      <TaskTimeline history={history} agents={(agents || []) as Agent[]} />
+    </TaskDetailClient>
+  );
 }
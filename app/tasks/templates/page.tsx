@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { getTaskTemplates } from '@/lib/supabase-client';
+import { getCachedAgents } from '@/lib/cached-data';
+import { createSupabaseServerClient } from '@/lib/auth-server';
+import { TaskTemplateManager } from '@/components/TaskTemplateManager';
+
+// Reads as the logged-in user (session cookies), so it renders per request
+export const dynamic = 'force-dynamic';
+
+export default async function TaskTemplatesPage() {
+  const [templates, agents] = await Promise.all([
+    getTaskTemplates(createSupabaseServerClient()),
+    getCachedAgents()
+  ]);
+
+  return (
+    <div className="bg-zinc-950 text-zinc-100 font-sans p-8 min-h-[calc(100vh-64px)]">
+      <div className="max-w-5xl mx-auto">
+        <Link
+          href="/tasks"
+          className="inline-flex items-center gap-2 text-zinc-500 hover:text-zinc-300 text-sm mb-6 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Voltar para Tasks
+        </Link>
+
+        <header className="mb-8">
+          <h1 className="text-2xl font-bold tracking-tight text-white">Recurring Tasks</h1>
+          <p className="text-zinc-500 text-xs mt-1 uppercase tracking-widest font-semibold">
+            {templates.length} Templates • Tasks are created in the backlog on schedule
+          </p>
+        </header>
+
+        <TaskTemplateManager templates={templates} agents={agents} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { Agent } from '@/lib/supabase-client';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface AgentRegistryManagerProps {
+  agents: Agent[];
+}
+
+interface FormState {
+  id?: string;
+  name: string;
+  role: string;
+  capabilities: string;
+  memory_path: string;
+}
+
+const emptyForm: FormState = {
+  name: '',
+  role: '',
+  capabilities: '',
+  memory_path: '',
+};
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600';
+const labelClass = 'block text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-1';
+
+function toForm(agent: Agent): FormState {
+  return {
+    id: agent.id,
+    name: agent.name,
+    role: agent.role || '',
+    capabilities: (agent.capabilities || []).join(', '),
+    memory_path: agent.memory_path || '',
+  };
+}
+
+export function AgentRegistryManager({ agents }: AgentRegistryManagerProps) {
+  const router = useRouter();
+  const [form, setForm] = useState<FormState | null>(null);
+  const [showRetired, setShowRetired] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const call = async (input: RequestInfo, init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(input, init);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      router.refresh();
+      return data;
+    } catch (err) {
+      console.error('Error updating agents:', err);
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const json = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const handleSave = async () => {
+    if (!form) return;
+    const payload = {
+      agentId: form.id,
+      name: form.name,
+      role: form.role || null,
+      capabilities: form.capabilities.split(',').map(c => c.trim()).filter(Boolean),
+      memory_path: form.memory_path || null,
+    };
+
+    const data = await call('/api/agents', json(form.id ? 'PATCH' : 'POST', payload));
+    if (data) {
+      setNotice(form.id ? `Agent "${form.name}" updated` : `Agent "${form.name}" registered. Issue it a token on its page.`);
+      setForm(null);
+    }
+  };
+
+  const handleRetire = async (agent: Agent) => {
+    if (!window.confirm(`Retire "${agent.name}"? Its tokens are revoked and open tasks return to the queue. History is kept.`)) return;
+    const data = await call(`/api/agents?id=${agent.id}`, { method: 'DELETE' });
+    if (data) {
+      setNotice(`Agent "${agent.name}" retired: ${data.tokensRevoked} token(s) revoked, ${data.tasksUnassigned} task(s) unassigned`);
+    }
+  };
+
+  const handleRestore = async (agent: Agent) => {
+    const data = await call('/api/agents', json('PATCH', { agentId: agent.id, restore: true }));
+    if (data) setNotice(`Agent "${agent.name}" restored. Issue it a new token before it can call the API.`);
+  };
+
+  const visible = agents.filter(a => showRetired || !a.retired_at);
+  const retiredCount = agents.filter(a => a.retired_at).length;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="px-4 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm">{notice}</div>
+      )}
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-zinc-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">Agents</h2>
+            {retiredCount > 0 && (
+              <label className="flex items-center gap-2 text-xs text-zinc-500">
+                <input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} />
+                Show retired ({retiredCount})
+              </label>
+            )}
+          </div>
+          {!form && (
+            <button
+              onClick={() => setForm(emptyForm)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              + Register Agent
+            </button>
+          )}
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-zinc-600 italic text-center">No agents registered</p>
+        ) : (
+          <ul className="divide-y divide-zinc-800">
+            {visible.map(agent => (
+              <li key={agent.id} className={`px-6 py-4 flex items-center gap-4 ${agent.retired_at ? 'opacity-60' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-zinc-200">{agent.name}</span>
+                    {agent.role && <span className="text-xs text-zinc-500">{agent.role}</span>}
+                    {agent.retired_at ? (
+                      <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-red-500/10 text-red-400">
+                        retired {new Date(agent.retired_at).toLocaleDateString('pt-BR')}
+                      </span>
+                    ) : (
+                      <span className="text-[10px] uppercase font-bold text-zinc-500">{agent.status}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-zinc-500 mt-1 truncate">
+                    {(agent.capabilities || []).join(', ') || 'No capabilities'}
+                    {agent.memory_path && <> · <span className="font-mono">{agent.memory_path}</span></>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  {agent.retired_at ? (
+                    <button onClick={() => handleRestore(agent)} disabled={isSaving} className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+                      Restore
+                    </button>
+                  ) : (
+                    <>
+                      <button onClick={() => setForm(toForm(agent))} disabled={isSaving} className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+                        Edit
+                      </button>
+                      <button onClick={() => handleRetire(agent)} disabled={isSaving} className="px-2 py-1 rounded border border-red-500/20 text-red-400 hover:bg-red-500/10 disabled:opacity-50">
+                        Retire
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {form && (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+          <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">
+            {form.id ? 'Edit agent' : 'Register agent'}
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} placeholder="seo-writer" />
+            </div>
+            <div>
+              <label className={labelClass}>Role</label>
+              <input value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value })} className={inputClass} placeholder="Content & SEO" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Capabilities (comma separated)</label>
+              <input value={form.capabilities} onChange={(e) => setForm({ ...form, capabilities: e.target.value })} className={inputClass} placeholder="seo, copywriting" />
+            </div>
+            <div>
+              <label className={labelClass}>Memory path</label>
+              <input value={form.memory_path} onChange={(e) => setForm({ ...form, memory_path: e.target.value })} className={`${inputClass} font-mono`} placeholder="memory/seo-writer" />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setForm(null)} className="px-3 py-1.5 text-sm text-zinc-400 hover:text-zinc-200 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !form.name.trim()}
+              className="px-4 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-sm text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save agent'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { AgentToken } from '@/lib/supabase-client';
+import { useCallback, useEffect, useState } from 'react';
+
+interface AgentTokenManagerProps {
+  agentId: string;
+  agentName: string;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString('pt-BR') : '—';
+}
+
+export function AgentTokenManager({ agentId, agentName }: AgentTokenManagerProps) {
+  const [tokens, setTokens] = useState<AgentToken[]>([]);
+  const [name, setName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/agents/tokens?agentId=${encodeURIComponent(agentId)}`);
+    if (res.ok) {
+      setTokens(await res.json());
+    } else {
+      setError('Failed to load tokens');
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const call = async (input: RequestInfo, init: RequestInit, showsToken: boolean) => {
+    setIsBusy(true);
+    setError(null);
+    setNewToken(null);
+    try {
+      const res = await fetch(input, init);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Request failed');
+        return;
+      }
+      if (showsToken) setNewToken(data.token);
+      await load();
+    } catch (err) {
+      console.error('Token request failed:', err);
+      setError('Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const issue = () => call('/api/agents/tokens', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ agentId, name }),
+  }, true).then(() => setName(''));
+
+  const rotate = (token: AgentToken) => {
+    if (!confirm(`Rotate "${token.name}"? The current token stops working immediately.`)) return;
+    call('/api/agents/tokens', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tokenId: token.id }),
+    }, true);
+  };
+
+  const revoke = (token: AgentToken) => {
+    if (!confirm(`Revoke "${token.name}"? ${agentName} can no longer use it.`)) return;
+    call(`/api/agents/tokens?id=${encodeURIComponent(token.id)}`, { method: 'DELETE' }, false);
+  };
+
+  return (
+    <div className="space-y-4">
+      {newToken && (
+        <div className="bg-green-950 border border-green-800 rounded p-4">
+          <p className="text-sm text-green-200 mb-2">
+            Copy this token now — it will not be shown again. Agents send it as <code>Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+          <code className="block bg-gray-950 px-3 py-2 rounded text-sm font-mono text-green-300 break-all select-all">
+            {newToken}
+          </code>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Token name (e.g. production)"
+          className="flex-1 bg-gray-950 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-gray-500"
+        />
+        <button
+          onClick={issue}
+          disabled={isBusy}
+          className="px-4 py-2 rounded bg-blue-700 hover:bg-blue-600 text-sm text-white disabled:opacity-50"
+        >
+          Issue token
+        </button>
+      </div>
+
+      {tokens.length === 0 ? (
+        <p className="text-gray-500 italic">No tokens issued. This agent cannot call the agent API yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tokens.map(token => (
+            <li
+              key={token.id}
+              className={`flex items-center justify-between gap-4 p-3 rounded border border-gray-600 ${token.revoked_at ? 'opacity-50' : ''}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-white">{token.name}</span>
+                  <code className="text-xs font-mono text-purple-300">{token.token_prefix}…</code>
+                  {token.revoked_at && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-red-900 text-red-200">revoked</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Created {formatDate(token.created_at)} · Last used {formatDate(token.last_used_at)}
+                  {token.revoked_at && ` · Revoked ${formatDate(token.revoked_at)}`}
+                </p>
+              </div>
+              {!token.revoked_at && (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => rotate(token)}
+                    disabled={isBusy}
+                    className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-xs text-gray-200 disabled:opacity-50"
+                  >
+                    Rotate
+                  </button>
+                  <button
+                    onClick={() => revoke(token)}
+                    disabled={isBusy}
+                    className="px-3 py-1 rounded bg-red-900 hover:bg-red-800 text-xs text-red-200 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 'use client';
 
+import { TaskPriority } from '@/lib/supabase-client';
+import { SLA_HOURS } from '@/lib/task-sla';
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 
@@ -8,6 +10,11 @@ export function CreateTaskModal() {
   const [title, setTitle] = useState('');
   const [owner, setOwner] = useState('');
   const [description, setDescription] = useState('');
+  const [deliverables, setDeliverables] = useState('');
+  const [priority, setPriority] = useState<TaskPriority>('medium');
+  const [dueDate, setDueDate] = useState('');
+  const [capabilities, setCapabilities] = useState('');
+  const [autoAssign, setAutoAssign] = useState(false);
   const [loading, setLoading] = useState(false);
   const router = useRouter();
 
@@ -19,7 +26,18 @@ export function CreateTaskModal() {
       const res = await fetch('/api/tasks', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title, owner, description }),
+        body: JSON.stringify({
+          title,
+          owner,
+          description,
+          priority,
+          // datetime-local has no timezone; interpret it as the browser's local time
+          due_date: dueDate ? new Date(dueDate).toISOString() : null,
+          // One checklist item per line
+          deliverables: deliverables.split('\n').map(d => d.trim()).filter(Boolean),
+          required_capabilities: capabilities.split(',').map(c => c.trim()).filter(Boolean),
+          auto_assign: autoAssign && !owner.trim(),
+        }),
       });
 
       if (res.ok) {
@@ -27,6 +45,11 @@ export function CreateTaskModal() {
         setTitle('');
         setOwner('');
         setDescription('');
+        setDeliverables('');
+        setPriority('medium');
+        setDueDate('');
+        setCapabilities('');
+        setAutoAssign(false);
         router.refresh();
       }
     } catch (error) {
@@ -74,6 +97,26 @@ export function CreateTaskModal() {
             />
           </div>
 
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Required capabilities</label>
+            <input 
+              value={capabilities}
+              onChange={(e) => setCapabilities(e.target.value)}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500 transition-colors"
+              placeholder="seo, content"
+            />
+            <label className="flex items-center gap-2 mt-2 text-xs text-zinc-400">
+              <input
+                type="checkbox"
+                checked={autoAssign && !owner.trim()}
+                disabled={!!owner.trim()}
+                onChange={(e) => setAutoAssign(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Auto-assign to the least busy idle agent with these capabilities
+            </label>
+          </div>
+
           <div>
             <label className="block text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Description</label>
             <textarea 
@@ -84,6 +127,40 @@ export function CreateTaskModal() {
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Priority</label>
+              <select
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as TaskPriority)}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500 transition-colors"
+              >
+                {(Object.keys(SLA_HOURS) as TaskPriority[]).map(p => (
+                  <option key={p} value={p}>{p} (SLA {SLA_HOURS[p]}h)</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Due date</label>
+              <input
+                type="datetime-local"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500 transition-colors [color-scheme:dark]"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">Checklist (one per line)</label>
+            <textarea 
+              value={deliverables}
+              onChange={(e) => setDeliverables(e.target.value)}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500 transition-colors h-20 resize-none"
+              placeholder={'Write migration\nUpdate API docs'}
+            />
+          </div>
+
           <div className="flex gap-3 pt-4">
             <button 
               type="button"
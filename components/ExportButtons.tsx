@@ -0,0 +1,85 @@
+'use client';
+
+import { ExportDatasetName } from '@/lib/export';
+import { useState } from 'react';
+
+const DATASET_LABELS: Record<ExportDatasetName, string> = {
+  tasks: 'Tasks',
+  task_history: 'Task history',
+  cron_runs: 'Cron runs',
+  reports: 'Agent reports',
+};
+
+interface ExportButtonsProps {
+  datasets: ExportDatasetName[];
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Download links for /api/export, defaulting to the last 7 days
+export function ExportButtons({ datasets }: ExportButtonsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+
+  const href = (dataset: ExportDatasetName, format: 'csv' | 'ndjson') => {
+    const params = new URLSearchParams({ format });
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return `/api/export/${dataset}?${params.toString()}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-semibold rounded-lg transition-colors"
+      >
+        Export ▾
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl p-4 z-50 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-[10px] text-zinc-500 uppercase font-bold tracking-wider mb-1">From</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-zinc-600 [color-scheme:dark]"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] text-zinc-500 uppercase font-bold tracking-wider mb-1">To</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-zinc-600 [color-scheme:dark]"
+              />
+            </div>
+          </div>
+
+          <ul className="divide-y divide-zinc-800">
+            {datasets.map(dataset => (
+              <li key={dataset} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-zinc-300">{DATASET_LABELS[dataset]}</span>
+                <span className="flex gap-2 text-xs">
+                  <a href={href(dataset, 'csv')} download className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200">
+                    CSV
+                  </a>
+                  <a href={href(dataset, 'ndjson')} download className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200">
+                    NDJSON
+                  </a>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
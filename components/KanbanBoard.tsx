@@ -0,0 +1,385 @@
+'use client';
+
+import { Agent, Task, TaskPriority, TaskStatus } from '@/lib/supabase-client';
+import { compareByPosition, positionBetween } from '@/lib/task-position';
+import { TaskCard } from '@/components/TaskCard';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface KanbanBoardProps {
+  tasks: Task[];
+  agents?: Pick<Agent, 'id' | 'name'>[];
+}
+
+interface DropTarget {
+  status: TaskStatus;
+  index: number;
+}
+
+const columns: { title: string; status: TaskStatus; color: string }[] = [
+  { title: 'Backlog', status: 'backlog', color: 'zinc' },
+  { title: 'To Do', status: 'todo', color: 'blue' },
+  { title: 'In Progress', status: 'in_progress', color: 'amber' },
+  { title: 'Blocked', status: 'blocked', color: 'red' },
+  { title: 'Done', status: 'done', color: 'emerald' },
+];
+
+const colorConfig: Record<string, { border: string; badge: string }> = {
+  zinc: { border: 'border-t-zinc-500', badge: 'bg-zinc-800 text-zinc-400' },
+  blue: { border: 'border-t-blue-500', badge: 'bg-blue-500/10 text-blue-400' },
+  amber: { border: 'border-t-amber-500', badge: 'bg-amber-500/10 text-amber-400' },
+  red: { border: 'border-t-red-500', badge: 'bg-red-500/10 text-red-400' },
+  emerald: { border: 'border-t-emerald-500', badge: 'bg-emerald-500/10 text-emerald-400' },
+};
+
+export function KanbanBoard({ tasks: initialTasks, agents = [] }: KanbanBoardProps) {
+  const router = useRouter();
+  const [tasks, setTasks] = useState(initialTasks);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isBulkSaving, setIsBulkSaving] = useState(false);
+
+  // Pick up fresh server data after router.refresh() / auto-sync
+  useEffect(() => {
+    setTasks(initialTasks);
+  }, [initialTasks]);
+
+  const columnTasks = (status: TaskStatus) =>
+    tasks.filter(t => t.status === status).sort(compareByPosition);
+
+  const toggleSelected = (taskId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  const exitSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const runBulk = async (payload: Record<string, unknown>) => {
+    if (selected.size === 0) return;
+    setIsBulkSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tasks/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskIds: Array.from(selected), ...payload }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const failed = ((data.results || []) as { id: string; ok: boolean; error?: string }[])
+          .filter(r => !r.ok && r.error !== 'Rolled back');
+        const title = (id: string) => tasks.find(t => t.id === id)?.title || id;
+        throw new Error(failed.length > 0
+          ? `Nothing changed. ${failed.map(r => `"${title(r.id)}": ${r.error}`).join('; ')}`
+          : data.error || 'Bulk update failed');
+      }
+
+      exitSelecting();
+      router.refresh();
+    } catch (err) {
+      console.error('Error running bulk update:', err);
+      setError(err instanceof Error ? err.message : 'Bulk update failed');
+    } finally {
+      setIsBulkSaving(false);
+    }
+  };
+
+  const handleDrop = async (target: DropTarget) => {
+    const task = tasks.find(t => t.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task) return;
+
+    // Neighbours in the destination column, without the dragged card
+    const siblings = columnTasks(target.status).filter(t => t.id !== task.id);
+    const positioned = siblings.slice(0, target.index).filter(t => t.position != null);
+    const before = positioned[positioned.length - 1]?.position;
+    const after = siblings[target.index]?.position;
+    const position = positionBetween(before, after);
+
+    if (task.status === target.status && task.position === position) return;
+
+    const previous = tasks;
+    const updates: Partial<Task> = { position };
+    if (task.status !== target.status) updates.status = target.status;
+
+    // Blocking needs a reason
+    if (target.status === 'blocked' && task.status !== 'blocked') {
+      const reason = window.prompt(`Why is "${task.title}" blocked?`)?.trim();
+      if (!reason) return;
+      updates.blocked_reason = reason;
+    }
+
+    const unblocking = task.status === 'blocked' && target.status !== 'blocked';
+    if (unblocking) {
+      updates.blocked_reason = null;
+    }
+
+    // Optimistic update
+    setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, ...updates } : t)));
+    setError(null);
+
+    try {
+      if (unblocking) {
+        // One request, so a failure can't leave the task unblocked but unplaced
+        await send('/api/tasks/unblock', 'POST', { taskId: task.id, status: target.status, position });
+      } else {
+        await send('/api/tasks', 'PATCH', { taskId: task.id, ...updates });
+      }
+
+      router.refresh();
+    } catch (err) {
+      console.error('Error moving task:', err);
+      setTasks(previous);
+      setError(err instanceof Error ? err.message : 'Failed to move task');
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <div className="mb-4 px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-4 flex items-center gap-3">
+        <button
+          onClick={() => (selecting ? exitSelecting() : setSelecting(true))}
+          className={`px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+            selecting ? 'bg-blue-500/20 text-blue-400 border-blue-500/40' : 'border-zinc-800 text-zinc-400 hover:text-zinc-200'
+          }`}
+        >
+          {selecting ? 'Done selecting' : 'Select tasks'}
+        </button>
+        {selecting && (
+          <span className="text-xs text-zinc-500">Click cards to select them</span>
+        )}
+      </div>
+
+      <div className="flex gap-6 min-w-max pb-4">
+        {columns.map(column => (
+          <Column
+            key={column.status}
+            title={column.title}
+            status={column.status}
+            color={column.color}
+            tasks={columnTasks(column.status)}
+            draggingId={draggingId}
+            dropIndex={dropTarget?.status === column.status ? dropTarget.index : null}
+            onDragStart={setDraggingId}
+            onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+            onDragOver={setDropTarget}
+            onDrop={handleDrop}
+            selecting={selecting}
+            selected={selected}
+            onToggleSelected={toggleSelected}
+          />
+        ))}
+      </div>
+
+      {selecting && selected.size > 0 && (
+        <BulkActionBar
+          count={selected.size}
+          agents={agents}
+          disabled={isBulkSaving}
+          onRun={runBulk}
+          onClear={() => setSelected(new Set())}
+        />
+      )}
+    </>
+  );
+}
+
+interface ColumnProps {
+  title: string;
+  status: TaskStatus;
+  color: string;
+  tasks: Task[];
+  draggingId: string | null;
+  dropIndex: number | null;
+  onDragStart: (taskId: string) => void;
+  onDragEnd: () => void;
+  onDragOver: (target: DropTarget) => void;
+  onDrop: (target: DropTarget) => void;
+  selecting: boolean;
+  selected: Set<string>;
+  onToggleSelected: (taskId: string) => void;
+}
+
+function Column({ title, status, color, tasks, draggingId, dropIndex, onDragStart, onDragEnd, onDragOver, onDrop, selecting, selected, onToggleSelected }: ColumnProps) {
+  const config = colorConfig[color] || colorConfig.zinc;
+
+  // Index among the cards that stay in place (the dragged card is skipped)
+  const visibleIndex = (idx: number) =>
+    tasks.slice(0, idx).filter(t => t.id !== draggingId).length;
+
+  return (
+    <div
+      className={`flex-shrink-0 w-80 flex flex-col rounded-xl bg-zinc-900 border border-zinc-800/50 shadow-xl ${config.border} border-t-4`}
+      onDragOver={(e) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        // Dropping on empty column space appends to the bottom
+        if (e.target === e.currentTarget || dropIndex === null) {
+          onDragOver({ status, index: tasks.filter(t => t.id !== draggingId).length });
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop({ status, index: dropIndex ?? tasks.filter(t => t.id !== draggingId).length });
+      }}
+    >
+      <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+        <h2 className="font-semibold text-zinc-200 tracking-wide text-sm uppercase">{title}</h2>
+        <span className={`${config.badge} text-xs px-2 py-0.5 rounded-full font-medium`}>{tasks.length}</span>
+      </div>
+
+      <div className="flex-1 p-3 space-y-3 overflow-y-auto max-h-[calc(100vh-200px)] scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+        {tasks.map((task, idx) => (
+          <div
+            key={task.id}
+            draggable={!selecting}
+            onClickCapture={(e) => {
+              if (!selecting) return;
+              // In select mode a click toggles the card instead of opening it
+              e.preventDefault();
+              e.stopPropagation();
+              onToggleSelected(task.id);
+            }}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', task.id);
+              onDragStart(task.id);
+            }}
+            onDragEnd={onDragEnd}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              e.stopPropagation();
+              // Upper half of a card drops above it, lower half below it
+              const rect = e.currentTarget.getBoundingClientRect();
+              const below = e.clientY > rect.top + rect.height / 2;
+              onDragOver({ status, index: visibleIndex(idx) + (below && task.id !== draggingId ? 1 : 0) });
+            }}
+            className={`relative ${task.id === draggingId ? 'opacity-40' : ''} ${selected.has(task.id) ? 'ring-2 ring-blue-500 rounded-lg' : ''}`}
+          >
+            {dropIndex === visibleIndex(idx) && task.id !== draggingId && <DropIndicator />}
+            {selecting && (
+              <span className={`absolute top-2 right-2 z-10 w-4 h-4 rounded border flex items-center justify-center text-[10px] ${
+                selected.has(task.id) ? 'bg-blue-500 border-blue-500 text-white' : 'bg-zinc-900 border-zinc-600'
+              }`}>
+                {selected.has(task.id) && '✓'}
+              </span>
+            )}
+            <TaskCard task={task} />
+          </div>
+        ))}
+        {dropIndex !== null && dropIndex >= tasks.filter(t => t.id !== draggingId).length && <DropIndicator />}
+        {tasks.length === 0 && dropIndex === null && (
+          <div className="h-24 flex items-center justify-center border-2 border-dashed border-zinc-800 rounded-lg">
+            <span className="text-zinc-600 text-sm">No tasks</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DropIndicator() {
+  return <div className="h-0.5 mb-3 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.6)]"></div>;
+}
+
+const selectClass = 'bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-zinc-600 disabled:opacity-50';
+
+function BulkActionBar({ count, agents, disabled, onRun, onClear }: {
+  count: number;
+  agents: Pick<Agent, 'id' | 'name'>[];
+  disabled: boolean;
+  onRun: (payload: Record<string, unknown>) => void;
+  onClear: () => void;
+}) {
+  const [tag, setTag] = useState('');
+
+  const handleMove = (status: TaskStatus) => {
+    if (status !== 'blocked') return onRun({ action: 'move', status });
+    const reason = window.prompt(`Why are these ${count} tasks blocked?`)?.trim();
+    if (reason) onRun({ action: 'move', status, blocked_reason: reason });
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${count} tasks? This cannot be undone.`)) {
+      onRun({ action: 'delete' });
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 px-4 py-3 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl">
+      <span className="text-sm font-semibold text-white mr-2">{count} selected</span>
+
+      <select value="" onChange={(e) => handleMove(e.target.value as TaskStatus)} disabled={disabled} className={selectClass}>
+        <option value="" disabled>Move to...</option>
+        {columns.map(c => <option key={c.status} value={c.status}>{c.title}</option>)}
+      </select>
+
+      <select value="" onChange={(e) => onRun({ action: 'prioritize', priority: e.target.value as TaskPriority })} disabled={disabled} className={selectClass}>
+        <option value="" disabled>Priority...</option>
+        {(['critical', 'high', 'medium', 'low'] as TaskPriority[]).map(p => <option key={p} value={p}>{p}</option>)}
+      </select>
+
+      <select value="" onChange={(e) => onRun({ action: 'assign', assigned_agent_id: e.target.value === 'none' ? null : e.target.value })} disabled={disabled} className={selectClass}>
+        <option value="" disabled>Assign to...</option>
+        <option value="none">Unassigned</option>
+        {agents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+      </select>
+
+      <div className="flex items-center gap-1">
+        <input
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="Tag"
+          disabled={disabled}
+          className={`${selectClass} w-24`}
+        />
+        <button onClick={() => onRun({ action: 'tag', tag })} disabled={disabled || !tag.trim()} className={selectClass} title="Add tag">+</button>
+        <button onClick={() => onRun({ action: 'untag', tag })} disabled={disabled || !tag.trim()} className={selectClass} title="Remove tag">−</button>
+      </div>
+
+      <button
+        onClick={handleDelete}
+        disabled={disabled}
+        className="px-3 py-1.5 rounded-lg text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+      >
+        Delete
+      </button>
+
+      <button onClick={onClear} disabled={disabled} className="text-xs text-zinc-500 hover:text-zinc-300 ml-1">
+        Clear
+      </button>
+    </div>
+  );
+}
+
+async function send(url: string, method: string, body: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to move task');
+  }
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { createSupabaseBrowserClient } from '@/lib/auth';
+import { useState } from 'react';
+
+interface LoginFormProps {
+  next: string;
+}
+
+export function LoginForm({ next }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    const supabase = createSupabaseBrowserClient();
+    const redirectTo = new URL('/auth/callback', window.location.origin);
+    redirectTo.searchParams.set('next', next);
+
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: {
+        emailRedirectTo: redirectTo.toString(),
+        // Accounts are invited by an admin; the login page does not sign people up
+        shouldCreateUser: false
+      }
+    });
+
+    setLoading(false);
+    if (otpError) {
+      console.error('Error sending magic link:', otpError);
+      setError(otpError.message);
+      return;
+    }
+    setSentTo(email.trim());
+  };
+
+  if (sentTo) {
+    return (
+      <div className="text-sm text-zinc-300">
+        Enviamos um link de acesso para <span className="font-semibold text-white">{sentTo}</span>.
+        Abra o e-mail neste navegador para entrar.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-1">Email</label>
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="voce@empresa.com"
+          className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600"
+        />
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+      >
+        {loading ? 'Enviando...' : 'Enviar magic link'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+import ReactMarkdown, { Components } from 'react-markdown';
+
+// Tailwind has no typography plugin here, so style the common elements by hand.
+// Raw HTML in the source is not rendered (react-markdown escapes it).
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-0.5">{children}</ol>,
+  h1: ({ children }) => <h1 className="text-base font-bold text-white mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-sm font-bold text-white mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-semibold text-zinc-200 mb-1">{children}</h3>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-zinc-600 pl-3 text-zinc-400 mb-2">{children}</blockquote>
+  ),
+  code: ({ children }) => (
+    <code className="px-1 py-0.5 rounded bg-zinc-800 text-amber-300 font-mono text-xs">{children}</code>
+  ),
+  pre: ({ children }) => (
+    <pre className="mb-2 p-3 rounded-lg bg-zinc-950 border border-zinc-800 overflow-x-auto text-xs [&_code]:bg-transparent [&_code]:p-0 [&_code]:text-zinc-300">
+      {children}
+    </pre>
+  ),
+};
+
+export function Markdown({ children }: { children: string }) {
+  return (
+    <div className="text-sm text-zinc-300 break-words">
+      <ReactMarkdown components={components}>{children}</ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import type { AgentMemoryEntry, MemoryFilters } from '@/lib/agent-memory';
+import { Agent } from '@/lib/supabase-client';
+import { ListDiff, diffReports } from '@/lib/memory-report';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+interface MemoryExplorerProps {
+  entries: AgentMemoryEntry[];
+  agents: Pick<Agent, 'id' | 'name'>[];
+  memoryTypes: string[];
+  filters: MemoryFilters;
+  nextCursor: string | null;
+}
+
+const inputClass = 'bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600';
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    dateStyle: 'short',
+    timeStyle: 'short'
+  });
+}
+
+function toQuery(filters: MemoryFilters, cursor?: string): string {
+  const params = new URLSearchParams();
+  if (filters.agentId) params.set('agentId', filters.agentId);
+  if (filters.memoryType) params.set('type', filters.memoryType);
+  if (filters.q) params.set('q', filters.q);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
+// Memory browser for /agents/memory. Filters live in the URL like the board's,
+// so a search scoped to one agent can be linked from its profile page.
+export function MemoryExplorer({ entries, agents, memoryTypes, filters, nextCursor }: MemoryExplorerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [search, setSearch] = useState(filters.q || '');
+
+  const apply = (next: MemoryFilters, cursor?: string) => {
+    const query = toQuery(next, cursor);
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: !!cursor });
+  };
+
+  const update = (patch: Partial<MemoryFilters>) => apply({ ...filters, ...patch });
+
+  // Debounce the search box so typing doesn't refetch on every key
+  useEffect(() => {
+    if (search === (filters.q || '')) return;
+    const timer = setTimeout(() => update({ q: search || undefined }), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const hasFilters = !!(filters.agentId || filters.memoryType || filters.q);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search summaries and findings..."
+          className={`${inputClass} w-72`}
+        />
+
+        <select
+          value={filters.agentId || ''}
+          onChange={(e) => update({ agentId: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">All agents</option>
+          {agents.map(agent => (
+            <option key={agent.id} value={agent.id}>{agent.name}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.memoryType || ''}
+          onChange={(e) => update({ memoryType: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">All types</option>
+          {memoryTypes.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+
+        {hasFilters && (
+          <button
+            onClick={() => { setSearch(''); apply({}); }}
+            className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-zinc-600 italic text-center py-12">
+          {hasFilters ? 'No memory matches these filters' : 'No agent memory recorded yet'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map(entry => (
+            <MemoryEntryCard key={entry.id} entry={entry} />
+          ))}
+        </ul>
+      )}
+
+      {nextCursor && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => apply(filters, nextCursor)}
+            className="px-4 py-2 bg-zinc-900 hover:bg-zinc-800 rounded-lg text-xs font-semibold text-zinc-400 hover:text-zinc-200 border border-zinc-800 transition-colors"
+          >
+            Older entries →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MemoryEntryCard({ entry }: { entry: AgentMemoryEntry }) {
+  const [previous, setPrevious] = useState<AgentMemoryEntry | null | undefined>(undefined);
+  const [showDiff, setShowDiff] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = entry.report;
+
+  // The previous report is fetched once, on first open
+  const toggleDiff = async () => {
+    if (showDiff || previous !== undefined) {
+      setShowDiff(!showDiff);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/agents/memory?previousOf=${entry.id}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      setPrevious(data.previous);
+      setShowDiff(true);
+    } catch (err) {
+      console.error('Error fetching previous memory:', err);
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <li className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-3 text-xs mb-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {entry.agent ? (
+            <Link href={`/agents/${entry.agent.id}`} className="font-semibold text-zinc-200 hover:text-white truncate">{entry.agent.name}</Link>
+          ) : (
+            <span className="text-zinc-500 italic">unknown agent</span>
+          )}
+          {entry.memory_type && (
+            <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400 font-mono">{entry.memory_type}</span>
+          )}
+          <span className="text-zinc-500">{formatDate(entry.created_at)}</span>
+        </div>
+        {report && entry.agent_id && (
+          <button
+            onClick={toggleDiff}
+            disabled={isLoading}
+            className="shrink-0 px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : showDiff ? 'Hide diff' : 'Diff vs previous'}
+          </button>
+        )}
+      </div>
+
+      {report ? (
+        <>
+          <p className="text-sm text-zinc-300">{report.summary || <span className="italic text-zinc-600">No summary</span>}</p>
+          {report.findings.length > 0 && (
+            <ul className="mt-2 text-xs text-zinc-400 list-disc list-inside">
+              {report.findings.map((finding, idx) => <li key={idx}>{finding}</li>)}
+            </ul>
+          )}
+          {report.blockers.length > 0 && (
+            <ul className="mt-2 text-xs text-red-400 list-disc list-inside">
+              {report.blockers.map((blocker, idx) => <li key={idx}>{blocker}</li>)}
+            </ul>
+          )}
+          {(report.tasksCompleted.length > 0 || report.tasksStarted.length > 0) && (
+            <p className="mt-2 text-[10px] text-zinc-600">
+              {report.tasksCompleted.length} done · {report.tasksStarted.length} started
+            </p>
+          )}
+        </>
+      ) : (
+        <pre className="text-xs text-zinc-400 whitespace-pre-wrap break-words font-mono">{entry.content || '—'}</pre>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+      {showDiff && report && (
+        <div className="mt-3 border-t border-zinc-800 pt-3">
+          {!previous || !previous.report ? (
+            <p className="text-xs text-zinc-600 italic">No earlier report from this agent to compare with</p>
+          ) : (
+            <ReportDiffView entry={entry} previous={previous} />
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function ReportDiffView({ entry, previous }: { entry: AgentMemoryEntry; previous: AgentMemoryEntry }) {
+  if (!entry.report || !previous.report) return null;
+  const diff = diffReports(previous.report, entry.report);
+
+  return (
+    <div className="space-y-3 text-xs">
+      <p className="text-zinc-500">
+        Compared with the report from {formatDate(previous.created_at)}
+      </p>
+      {diff.summaryChanged ? (
+        <div className="space-y-1">
+          <p className="text-[10px] uppercase tracking-wider text-zinc-500">Summary</p>
+          <p className="text-red-400/80 line-through">{previous.report.summary || '—'}</p>
+          <p className="text-emerald-400">{entry.report.summary || '—'}</p>
+        </div>
+      ) : (
+        <p className="text-zinc-600">Summary unchanged</p>
+      )}
+      <DiffList label="Findings" diff={diff.findings} />
+      <DiffList label="Blockers" diff={diff.blockers} />
+      <DiffList label="Tasks completed" diff={diff.tasksCompleted} />
+      <DiffList label="Tasks started" diff={diff.tasksStarted} />
+    </div>
+  );
+}
+
+function DiffList({ label, diff }: { label: string; diff: ListDiff }) {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.unchanged.length === 0) return null;
+
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">{label}</p>
+      <ul className="space-y-0.5 font-mono">
+        {diff.added.map((item, idx) => <li key={`a${idx}`} className="text-emerald-400">+ {item}</li>)}
+        {diff.removed.map((item, idx) => <li key={`r${idx}`} className="text-red-400/80">- {item}</li>)}
+        {diff.unchanged.map((item, idx) => <li key={`u${idx}`} className="text-zinc-600">&nbsp; {item}</li>)}
+      </ul>
+    </div>
+  );
+}
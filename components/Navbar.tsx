@@ -1,4 +1,5 @@
 import Link from 'next/link';
+import { UserMenu } from '@/components/UserMenu';
 
 export default function Navbar() {
   return (
@@ -30,6 +31,7 @@ export default function Navbar() {
                 <span className="text-xs font-medium text-emerald-500">OPTIMAL</span>
               </div>
             </div>
+            <UserMenu />
           </div>
         </div>
       </div>
@@ -1,7 +1,8 @@
 'use client';
 
 import { Task, TaskStatus, TaskPriority } from '@/lib/supabase-client';
-import { useState } from 'react';
+import { formatOverdue, isOverdue } from '@/lib/task-sla';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 
 interface TaskCardProps {
@@ -19,26 +20,54 @@ const priorityConfig: Record<TaskPriority, { color: string; dot: string }> = {
 export function TaskCard({ task, showStatusMenu = false }: TaskCardProps) {
   const [isMoving, setIsMoving] = useState(false);
   const [localShowStatusMenu, setShowStatusMenu] = useState(false);
+  // Read after mount so the server render and hydration agree on the badges
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, []);
 
   const statuses: { label: string; value: TaskStatus }[] = [
     { label: 'Backlog', value: 'backlog' },
     { label: 'To Do', value: 'todo' },
     { label: 'In Progress', value: 'in_progress' },
+    { label: 'Blocked', value: 'blocked' },
     { label: 'Done', value: 'done' },
   ];
 
+  // Blocking needs a reason and unblocking goes through POST /api/tasks/unblock,
+  // same as dragging on the board
   const handleMove = async (newStatus: TaskStatus) => {
     if (newStatus === task.status) {
       setShowStatusMenu(false);
       return;
     }
 
+    let request: { url: string; method: string; body: Record<string, unknown> };
+    if (task.status === 'blocked') {
+      request = { url: '/api/tasks/unblock', method: 'POST', body: { taskId: task.id, status: newStatus } };
+    } else if (newStatus === 'blocked') {
+      const reason = window.prompt(`Why is "${task.title}" blocked?`)?.trim();
+      if (!reason) return;
+      request = {
+        url: '/api/tasks',
+        method: 'PATCH',
+        body: { taskId: task.id, status: 'blocked', blocked_reason: reason }
+      };
+    } else {
+      request = {
+        url: '/api/tasks',
+        method: 'PATCH',
+        body: { taskId: task.id, status: newStatus }
+      };
+    }
+
     setIsMoving(true);
     try {
-      const response = await fetch('/api/tasks', {
-        method: 'PATCH',
+      const response = await fetch(request.url, {
+        method: request.method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ taskId: task.id, newStatus }),
+        body: JSON.stringify(request.body),
       });
 
       if (!response.ok) throw new Error('Failed to move task');
@@ -53,6 +82,13 @@ export function TaskCard({ task, showStatusMenu = false }: TaskCardProps) {
     }
   };
 
+  const checklistTotal = task.checklist?.length || 0;
+  const checklistDone = task.checklist?.filter(item => item.done).length || 0;
+  const checklistPercent = checklistTotal > 0 ? Math.round((checklistDone / checklistTotal) * 100) : 0;
+
+  const overdue = now !== null && isOverdue(task, now);
+  const leased = now !== null && !!task.lease_agent_id && !!task.lease_expires_at && Date.parse(task.lease_expires_at) > now;
+
   const displayStatusMenu = showStatusMenu ? localShowStatusMenu : localShowStatusMenu;
 
   return (
@@ -67,17 +103,54 @@ export function TaskCard({ task, showStatusMenu = false }: TaskCardProps) {
               {task.assigned_agent.name.replace('@', '')}
             </span>
           )}
+          {overdue && (
+            <span
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20"
+              title={task.due_date ? 'Past due date' : 'Past the SLA for its priority'}
+            >
+              ⏰ {formatOverdue(task, now)}
+            </span>
+          )}
+          {leased && (
+            <span
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-500/10 text-amber-400 border border-amber-500/20"
+              title={`Leased until ${new Date(task.lease_expires_at!).toLocaleTimeString('pt-BR')}`}
+            >
+              🔒 claimed
+            </span>
+          )}
         </div>
       </div>
 
       <h3 className="font-medium text-zinc-200 mb-2 leading-snug hover:text-white transition-colors">{task.title}</h3>
       
+      {task.status === 'blocked' && task.blocked_reason && (
+        <p className="text-xs text-red-400 mb-3 px-2 py-1 rounded bg-red-500/10 border border-red-500/20 line-clamp-2">
+          {task.blocked_reason}
+        </p>
+      )}
+
       {task.description && (
         <p className="text-xs text-zinc-400 mb-4 line-clamp-3 leading-relaxed">
           {task.description}
         </p>
       )}
 
+      {checklistTotal > 0 && (
+        <div className="mb-3">
+          <div className="flex justify-between text-[10px] text-zinc-500 mb-1">
+            <span>{checklistDone}/{checklistTotal} items</span>
+            <span>{checklistPercent}%</span>
+          </div>
+          <div className="h-1 rounded-full bg-zinc-700/50 overflow-hidden">
+            <div
+              className={`h-full rounded-full ${checklistPercent === 100 ? 'bg-emerald-500' : 'bg-blue-500'}`}
+              style={{ width: `${checklistPercent}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-between items-center">
         <div className="flex items-center gap-2">
           <span className={`text-[10px] uppercase font-bold ${priorityConfig[task.priority].color}`}>
@@ -85,6 +158,11 @@ export function TaskCard({ task, showStatusMenu = false }: TaskCardProps) {
           </span>
           <span className={`inline-block w-1.5 h-1.5 rounded-full ${priorityConfig[task.priority].dot}`}></span>
         </div>
+        {task.due_date && !overdue && task.status !== 'done' && (
+          <span className="text-[10px] text-zinc-500">
+            Due {new Date(task.due_date).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' })}
+          </span>
+        )}
         
         {displayStatusMenu && (
           <div className="absolute inset-0 bg-zinc-900/95 z-20 p-2 rounded-lg flex flex-col gap-1 overflow-y-auto">
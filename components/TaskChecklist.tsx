@@ -0,0 +1,127 @@
+'use client';
+
+import { TaskChecklistItem } from '@/lib/supabase-client';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface TaskChecklistProps {
+  taskId: string;
+  items: TaskChecklistItem[];
+}
+
+export function TaskChecklist({ taskId, items }: TaskChecklistProps) {
+  const router = useRouter();
+  const [newItem, setNewItem] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const doneCount = items.filter(item => item.done).length;
+  const percent = items.length > 0 ? Math.round((doneCount / items.length) * 100) : 0;
+
+  const mutate = async (input: RequestInfo, init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(input, init);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update checklist');
+      }
+      router.refresh();
+    } catch (err) {
+      console.error('Error updating checklist:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update checklist');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newItem.trim()) return;
+    await mutate('/api/tasks/checklist', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ taskId, title: newItem }),
+    });
+    setNewItem('');
+  };
+
+  const handleToggle = (item: TaskChecklistItem) =>
+    mutate('/api/tasks/checklist', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ itemId: item.id, done: !item.done }),
+    });
+
+  const handleRemove = (itemId: string) =>
+    mutate(`/api/tasks/checklist?id=${itemId}`, { method: 'DELETE' });
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">Checklist</h2>
+        {items.length > 0 && (
+          <span className="text-xs text-zinc-500">{doneCount}/{items.length} · {percent}%</span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden mb-4">
+          <div
+            className={`h-full rounded-full transition-all ${percent === 100 ? 'bg-emerald-500' : 'bg-blue-500'}`}
+            style={{ width: `${percent}%` }}
+          ></div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-zinc-600 italic">No checklist items</p>
+      ) : (
+        <ul className="space-y-1">
+          {items.map(item => (
+            <li key={item.id} className="group flex items-center gap-3 text-sm py-1">
+              <input
+                type="checkbox"
+                checked={item.done}
+                onChange={() => handleToggle(item)}
+                disabled={isSaving}
+                className="h-4 w-4 rounded border-zinc-600 bg-zinc-800 accent-emerald-500"
+              />
+              <span className={`flex-1 ${item.done ? 'text-zinc-500 line-through' : 'text-zinc-300'}`}>
+                {item.title}
+              </span>
+              <button
+                onClick={() => handleRemove(item.id)}
+                disabled={isSaving}
+                className="text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all disabled:opacity-50"
+                title="Remove item"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          disabled={isSaving}
+          placeholder="Add an item..."
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newItem.trim() || isSaving}
+          className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-sm text-zinc-200 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { TaskComment } from '@/lib/supabase-client';
+import { Markdown } from '@/components/Markdown';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface TaskCommentsProps {
+  taskId: string;
+  comments: TaskComment[];
+}
+
+export function TaskComments({ taskId, comments }: TaskCommentsProps) {
+  const router = useRouter();
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tasks/comments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId, body }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to post comment');
+      }
+
+      setBody('');
+      router.refresh();
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+      <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider mb-4">
+        Comments {comments.length > 0 && <span className="text-zinc-600">({comments.length})</span>}
+      </h2>
+
+      {comments.length === 0 ? (
+        <p className="text-sm text-zinc-600 italic mb-4">No comments yet</p>
+      ) : (
+        <ul className="space-y-4 mb-6">
+          {comments.map(comment => (
+            <li key={comment.id} className="flex gap-3">
+              <div className={`w-7 h-7 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${comment.agent_id ? 'bg-blue-500/10 text-blue-400' : 'bg-zinc-800 text-zinc-300'}`}>
+                {comment.agent_id ? '🤖' : (comment.author_name || '?').charAt(0).toUpperCase()}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline gap-2 mb-1">
+                  <span className={`text-sm font-medium ${comment.agent_id ? 'text-blue-400' : 'text-zinc-200'}`}>
+                    {comment.agent?.name || comment.author_name || 'Unknown agent'}
+                  </span>
+                  <span className="text-xs text-zinc-600">{formatDate(comment.created_at)}</span>
+                </div>
+                <Markdown>{comment.body}</Markdown>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          disabled={isSaving}
+          placeholder="Leave instructions or notes (markdown supported)..."
+          className="w-full h-24 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-200 resize-none focus:outline-none focus:border-zinc-600"
+        />
+        <div className="flex justify-end">
+          <button
+            onClick={handleSubmit}
+            disabled={!body.trim() || isSaving}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-sm text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
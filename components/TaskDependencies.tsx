@@ -0,0 +1,149 @@
+'use client';
+
+import { DependencyNode, TaskDependencyChain, TaskStatus, TaskSummary } from '@/lib/supabase-client';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface TaskDependenciesProps {
+  taskId: string;
+  chain: TaskDependencyChain;
+  candidates: TaskSummary[];
+}
+
+const statusBadge: Record<TaskStatus, string> = {
+  backlog: 'bg-zinc-800 text-zinc-400',
+  todo: 'bg-blue-500/10 text-blue-400',
+  in_progress: 'bg-amber-500/10 text-amber-400',
+  blocked: 'bg-red-500/10 text-red-400',
+  done: 'bg-emerald-500/10 text-emerald-400',
+};
+
+export function TaskDependencies({ taskId, chain, candidates }: TaskDependenciesProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openBlockers = chain.blockedBy.filter(n => n.depth === 1 && n.task.status !== 'done');
+  const linkedIds = new Set(chain.blockedBy.filter(n => n.depth === 1).map(n => n.task.id));
+  const options = candidates.filter(t => !linkedIds.has(t.id));
+
+  const mutate = async (input: RequestInfo, init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(input, init);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update dependencies');
+      }
+      router.refresh();
+    } catch (err) {
+      console.error('Error updating dependencies:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update dependencies');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selected) return;
+    await mutate('/api/tasks/dependencies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ taskId, blockedByTaskId: selected }),
+    });
+    setSelected('');
+  };
+
+  const handleRemove = (dependencyId: string) =>
+    mutate(`/api/tasks/dependencies?id=${dependencyId}`, { method: 'DELETE' });
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">Dependencies</h2>
+        {openBlockers.length > 0 && (
+          <span className="text-xs px-2 py-0.5 rounded bg-red-500/10 text-red-400 border border-red-500/20">
+            Blocked by {openBlockers.length} open {openBlockers.length === 1 ? 'task' : 'tasks'}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-2">Blocked by</h3>
+          <DependencyList nodes={chain.blockedBy} onRemove={handleRemove} disabled={isSaving} />
+        </div>
+        <div>
+          <h3 className="text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-2">Blocks</h3>
+          <DependencyList nodes={chain.blocks} />
+        </div>
+      </div>
+
+      <div className="mt-4 flex gap-2">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          disabled={isSaving}
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600"
+        >
+          <option value="">Add a blocking task...</option>
+          {options.map(t => (
+            <option key={t.id} value={t.id}>{t.title}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!selected || isSaving}
+          className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-sm text-zinc-200 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function DependencyList({ nodes, onRemove, disabled }: {
+  nodes: DependencyNode[];
+  onRemove?: (dependencyId: string) => void;
+  disabled?: boolean;
+}) {
+  if (nodes.length === 0) {
+    return <p className="text-sm text-zinc-600 italic">None</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {nodes.map(node => (
+        <li
+          key={`${node.dependencyId}-${node.task.id}`}
+          className="flex items-center gap-2 text-sm"
+          style={{ paddingLeft: `${(node.depth - 1) * 16}px` }}
+        >
+          {node.depth > 1 && <span className="text-zinc-600">↳</span>}
+          <Link href={`/tasks/${node.task.id}`} className="flex-1 truncate text-zinc-300 hover:text-white transition-colors">
+            {node.task.title}
+          </Link>
+          <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${statusBadge[node.task.status]}`}>
+            {node.task.status.replace('_', ' ')}
+          </span>
+          {onRemove && node.depth === 1 && (
+            <button
+              onClick={() => onRemove(node.dependencyId)}
+              disabled={disabled}
+              className="text-zinc-500 hover:text-red-400 transition-colors disabled:opacity-50"
+              title="Remove dependency"
+            >
+              ×
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
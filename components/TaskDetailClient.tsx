@@ -1,18 +1,22 @@
 'use client';
 
 import { Task, TaskStatus, TaskPriority, Agent } from '@/lib/supabase-client';
-import { useState } from 'react';
+import { SLA_HOURS, formatOverdue, getDeadline, isOverdue } from '@/lib/task-sla';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 
 interface TaskDetailClientProps {
   task: Task;
   agents: Agent[];
+  // Extra sections rendered below the main card (dependencies, etc.)
+  children?: React.ReactNode;
 }
 
 const statusConfig: Record<TaskStatus, { label: string; color: string; bg: string }> = {
   backlog: { label: 'Backlog', color: 'text-zinc-400', bg: 'bg-zinc-800 text-zinc-300' },
   todo: { label: 'To Do', color: 'text-blue-400', bg: 'bg-blue-500/10 text-blue-400' },
   in_progress: { label: 'In Progress', color: 'text-amber-400', bg: 'bg-amber-500/10 text-amber-400' },
+  blocked: { label: 'Blocked', color: 'text-red-400', bg: 'bg-red-500/10 text-red-400' },
   done: { label: 'Done', color: 'text-emerald-400', bg: 'bg-emerald-500/10 text-emerald-400' },
 };
 
@@ -23,17 +27,38 @@ const priorityConfig: Record<TaskPriority, { label: string; color: string; dot:
   critical: { label: 'Critical', color: 'text-red-400', dot: 'bg-red-500' },
 };
 
-export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClientProps) {
+export function TaskDetailClient({ task: initialTask, agents, children }: TaskDetailClientProps) {
   const [task, setTask] = useState(initialTask);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [updateError, setUpdateError] = useState<string | null>(null);
   const [showStatusMenu, setShowStatusMenu] = useState(false);
   const [showPriorityMenu, setShowPriorityMenu] = useState(false);
   const [showAssigneeMenu, setShowAssigneeMenu] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editedDescription, setEditedDescription] = useState(task.description || '');
+  const [showBlockForm, setShowBlockForm] = useState(false);
+  const [blockReason, setBlockReason] = useState('');
+  const [unblockStatus, setUnblockStatus] = useState<TaskStatus>('todo');
+  const [dueInput, setDueInput] = useState(toLocalInput(task.due_date));
+  const [capabilitiesInput, setCapabilitiesInput] = useState((task.required_capabilities || []).join(', '));
+  const [assignNote, setAssignNote] = useState<string | null>(null);
+  // Read after mount so the server render and hydration agree on "overdue"
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, []);
+
+  // Pick up fresh server data after router.refresh() (e.g. checklist auto-completion)
+  useEffect(() => {
+    setTask(initialTask);
+    setDueInput(toLocalInput(initialTask.due_date));
+    setCapabilitiesInput((initialTask.required_capabilities || []).join(', '));
+  }, [initialTask]);
 
   const updateTask = async (updates: Partial<Task>) => {
     setIsUpdating(true);
+    setUpdateError(null);
     try {
       const response = await fetch('/api/tasks', {
         method: 'PATCH',
@@ -41,31 +66,70 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
         body: JSON.stringify({ taskId: task.id, ...updates }),
       });
 
-      if (!response.ok) throw new Error('Failed to update task');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update task');
+      }
       
-      // Optimistic update
+      // Optimistic update (the PATCH route revalidates the cached pages)
       setTask(prev => ({ ...prev, ...updates, updated_at: new Date().toISOString() }));
-      
-      // Trigger on-demand revalidation for ISR cache
-      fetch('/api/revalidate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          path: '/tasks', 
-          secret: 'amplify-revalidate-2026' 
-        }),
-      }).catch(err => console.warn('Revalidation failed:', err));
-      
     } catch (error) {
       console.error('Error updating task:', error);
+      setUpdateError(error instanceof Error ? error.message : 'Failed to update task');
     } finally {
       setIsUpdating(false);
     }
   };
 
   const handleStatusChange = (status: TaskStatus) => {
-    updateTask({ status });
     setShowStatusMenu(false);
+    if (status === task.status) return;
+
+    // Blocking asks for a reason; leaving 'blocked' goes through the unblock form
+    if (status === 'blocked') {
+      setShowBlockForm(true);
+    } else if (task.status === 'blocked') {
+      setUnblockStatus(status);
+    } else {
+      updateTask({ status });
+    }
+  };
+
+  const handleBlock = async () => {
+    if (!blockReason.trim()) return;
+    await updateTask({ status: 'blocked', blocked_reason: blockReason.trim() });
+    setShowBlockForm(false);
+    setBlockReason('');
+  };
+
+  const handleUnblock = async () => {
+    setIsUpdating(true);
+    setUpdateError(null);
+    try {
+      const response = await fetch('/api/tasks/unblock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id, status: unblockStatus }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to unblock task');
+      }
+
+      setTask(prev => ({
+        ...prev,
+        status: unblockStatus,
+        blocked_reason: null,
+        blocked_at: null,
+        updated_at: new Date().toISOString()
+      }));
+    } catch (error) {
+      console.error('Error unblocking task:', error);
+      setUpdateError(error instanceof Error ? error.message : 'Failed to unblock task');
+    } finally {
+      setIsUpdating(false);
+    }
   };
 
   const handlePriorityChange = (priority: TaskPriority) => {
@@ -78,6 +142,52 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
     setShowAssigneeMenu(false);
   };
 
+  const handleCapabilitiesSave = (value: string) => {
+    const capabilities = value.split(',').map(c => c.trim().toLowerCase()).filter(Boolean);
+    if (capabilities.join(',') === (task.required_capabilities || []).join(',')) return;
+    updateTask({ required_capabilities: capabilities.length > 0 ? capabilities : null });
+  };
+
+  // Let the server pick the least-loaded idle agent that has the required capabilities
+  const handleAutoAssign = async () => {
+    setIsUpdating(true);
+    setUpdateError(null);
+    setAssignNote(null);
+    try {
+      const response = await fetch('/api/tasks/assign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok && !data.reason) {
+        throw new Error(data.error || 'Failed to auto-assign task');
+      }
+
+      setAssignNote(data.reason);
+      if (data.agent) {
+        const agent = agents.find(a => a.id === data.agent.id) || null;
+        setTask(prev => ({
+          ...prev,
+          assigned_agent_id: data.agent.id,
+          assigned_agent: agent,
+          updated_at: new Date().toISOString()
+        }));
+      }
+    } catch (error) {
+      console.error('Error auto-assigning task:', error);
+      setUpdateError(error instanceof Error ? error.message : 'Failed to auto-assign task');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDueDateSave = (value: string) => {
+    if (value === toLocalInput(task.due_date)) return;
+    updateTask({ due_date: value ? new Date(value).toISOString() : null });
+  };
+
   const handleDescriptionSave = async () => {
     await updateTask({ description: editedDescription });
     setIsEditing(false);
@@ -108,6 +218,74 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
           Voltar para Tasks
         </Link>
 
+        {updateError && (
+          <div className="mb-4 px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {updateError}
+          </div>
+        )}
+
+        {/* Blocked banner */}
+        {task.status === 'blocked' && (
+          <div className="mb-4 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+            <h2 className="text-sm text-red-400 uppercase font-semibold tracking-wider mb-1">Blocked</h2>
+            <p className="text-sm text-zinc-200 whitespace-pre-wrap">{task.blocked_reason || 'No reason given'}</p>
+            {task.blocked_at && (
+              <p className="text-xs text-zinc-500 mt-1">Since {formatDate(task.blocked_at)}</p>
+            )}
+            <div className="mt-4 flex flex-wrap gap-2">
+              <select
+                value={unblockStatus}
+                onChange={(e) => setUnblockStatus(e.target.value as TaskStatus)}
+                className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600"
+              >
+                {Object.entries(statusConfig)
+                  .filter(([status]) => status !== 'blocked')
+                  .map(([status, config]) => (
+                    <option key={status} value={status}>{config.label}</option>
+                  ))}
+              </select>
+              <button
+                onClick={handleUnblock}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-sm text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                Unblock
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Block reason form */}
+        {showBlockForm && task.status !== 'blocked' && (
+          <div className="mb-4 p-4 rounded-xl bg-zinc-900 border border-red-500/20">
+            <label className="block text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-2">
+              Why is this task blocked?
+            </label>
+            <textarea
+              value={blockReason}
+              onChange={(e) => setBlockReason(e.target.value)}
+              className="w-full h-20 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-200 resize-none focus:outline-none focus:border-zinc-600"
+              placeholder="Waiting on credentials, external review, ..."
+              autoFocus
+            />
+            <div className="mt-2 flex justify-end gap-2">
+              <button
+                onClick={() => { setShowBlockForm(false); setBlockReason(''); }}
+                className="px-3 py-1.5 text-sm text-zinc-400 hover:text-zinc-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleBlock}
+                disabled={!blockReason.trim() || isUpdating}
+                className="px-4 py-1.5 bg-red-600 hover:bg-red-500 text-sm text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                Block task
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Main card */}
         <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
           {/* Header */}
@@ -117,6 +295,11 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
                 <h1 className="text-2xl font-bold text-white mb-2">{task.title}</h1>
                 <div className="flex flex-wrap items-center gap-3 text-sm">
                   <span className="text-zinc-500">ID: <span className="text-zinc-400 font-mono text-xs">{task.id.slice(0, 8)}...</span></span>
+                  {now !== null && isOverdue(task, now) && (
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20">
+                      ⏰ Overdue · {formatOverdue(task, now)}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -153,7 +336,7 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
 
           {/* Metadata row */}
           <div className="p-6 bg-zinc-900/50 border-b border-zinc-800">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               {/* Assignee */}
               <div>
                 <label className="block text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-2">
@@ -199,6 +382,26 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
                     </div>
                   )}
                 </div>
+                <input
+                  value={capabilitiesInput}
+                  onChange={(e) => setCapabilitiesInput(e.target.value)}
+                  onBlur={(e) => handleCapabilitiesSave(e.target.value)}
+                  disabled={isUpdating}
+                  placeholder="Required capabilities (comma separated)"
+                  className="w-full mt-2 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+                />
+                {task.status !== 'done' && (
+                  <button
+                    onClick={handleAutoAssign}
+                    disabled={isUpdating}
+                    className="mt-2 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    Auto-assign by capability
+                  </button>
+                )}
+                {assignNote && (
+                  <p className="mt-1 text-xs text-zinc-500">{assignNote}</p>
+                )}
               </div>
 
               {/* Priority */}
@@ -236,6 +439,38 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
                 </div>
               </div>
 
+              {/* Due date */}
+              <div>
+                <label className="block text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-2">
+                  Due date
+                </label>
+                <div className="flex gap-1">
+                  <input
+                    type="datetime-local"
+                    value={dueInput}
+                    onChange={(e) => setDueInput(e.target.value)}
+                    onBlur={(e) => handleDueDateSave(e.target.value)}
+                    disabled={isUpdating}
+                    className="w-full min-w-0 px-2 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-200 hover:border-zinc-600 focus:outline-none focus:border-zinc-600 transition-colors [color-scheme:dark]"
+                  />
+                  {task.due_date && (
+                    <button
+                      onClick={() => { setDueInput(''); handleDueDateSave(''); }}
+                      disabled={isUpdating}
+                      className="px-2 text-zinc-500 hover:text-zinc-300 transition-colors"
+                      title="Clear due date"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+                {!task.due_date && getDeadline(task) && (
+                  <p className="mt-1 text-xs text-zinc-500">
+                    SLA {SLA_HOURS[task.priority]}h · {formatDate(getDeadline(task)!.at.toISOString())}
+                  </p>
+                )}
+              </div>
+
               {/* Created/Updated */}
               <div className="flex flex-col gap-3">
                 <div>
@@ -318,6 +553,8 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
           )}
         </div>
 
+        {children && <div className="mt-6 space-y-6">{children}</div>}
+
         {/* Update indicator */}
         {isUpdating && (
           <div className="fixed bottom-4 right-4 bg-zinc-800 text-zinc-300 px-4 py-2 rounded-lg shadow-lg flex items-center gap-2">
@@ -332,3 +569,11 @@ export function TaskDetailClient({ task: initialTask, agents }: TaskDetailClient
     </div>
   );
 }
+
+// ISO timestamp -> value for a datetime-local input, in the browser's time zone
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
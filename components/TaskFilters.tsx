@@ -0,0 +1,128 @@
+'use client';
+
+import { Agent, TaskPriority } from '@/lib/supabase-client';
+import { TaskFilters as Filters, parseTaskFilters, taskFiltersToQuery, hasTaskFilters } from '@/lib/task-filters';
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+interface TaskFiltersProps {
+  agents: Pick<Agent, 'id' | 'name'>[];
+  tags: string[];
+}
+
+const priorities: { value: TaskPriority; label: string; active: string }[] = [
+  { value: 'critical', label: 'Critical', active: 'bg-red-500/20 text-red-400 border-red-500/40' },
+  { value: 'high', label: 'High', active: 'bg-amber-500/20 text-amber-400 border-amber-500/40' },
+  { value: 'medium', label: 'Medium', active: 'bg-blue-500/20 text-blue-400 border-blue-500/40' },
+  { value: 'low', label: 'Low', active: 'bg-zinc-700 text-zinc-300 border-zinc-500' },
+];
+
+const inputClass = 'bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600 [color-scheme:dark]';
+
+// Filter bar for the board. All state lives in the URL so filtered views can be shared.
+export function TaskFilters({ agents, tags }: TaskFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = parseTaskFilters(new URLSearchParams(searchParams.toString()));
+  const [search, setSearch] = useState(filters.q || '');
+
+  const apply = (next: Filters) => {
+    const query = taskFiltersToQuery(next);
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const update = (patch: Partial<Filters>) => apply({ ...filters, ...patch });
+
+  // Debounce the search box so typing doesn't refetch on every key
+  useEffect(() => {
+    if (search === (filters.q || '')) return;
+    const timer = setTimeout(() => update({ q: search || undefined }), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const togglePriority = (priority: TaskPriority) => {
+    const current = filters.priority || [];
+    const next = current.includes(priority)
+      ? current.filter(p => p !== priority)
+      : [...current, priority];
+    update({ priority: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-3">
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search tasks..."
+        className={`${inputClass} w-64`}
+      />
+
+      <select
+        value={filters.assignee || ''}
+        onChange={(e) => update({ assignee: e.target.value || undefined })}
+        className={inputClass}
+      >
+        <option value="">All assignees</option>
+        <option value="unassigned">Unassigned</option>
+        {agents.map(agent => (
+          <option key={agent.id} value={agent.id}>{agent.name}</option>
+        ))}
+      </select>
+
+      <div className="flex gap-1">
+        {priorities.map(p => (
+          <button
+            key={p.value}
+            onClick={() => togglePriority(p.value)}
+            className={`px-2 py-1 rounded-md border text-xs font-medium transition-colors ${
+              filters.priority?.includes(p.value) ? p.active : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <select
+          value={filters.tag || ''}
+          onChange={(e) => update({ tag: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center gap-2 text-xs text-zinc-500">
+        <span>Created</span>
+        <input
+          type="date"
+          value={filters.from || ''}
+          onChange={(e) => update({ from: e.target.value || undefined })}
+          className={inputClass}
+        />
+        <span>→</span>
+        <input
+          type="date"
+          value={filters.to || ''}
+          onChange={(e) => update({ to: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+
+      {hasTaskFilters(filters) && (
+        <button
+          onClick={() => { setSearch(''); apply({}); }}
+          className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { Agent, TaskPriority, TaskTemplate } from '@/lib/supabase-client';
+import { describeSchedule } from '@/lib/schedule';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface TaskTemplateManagerProps {
+  templates: TaskTemplate[];
+  agents: Pick<Agent, 'id' | 'name'>[];
+}
+
+interface FormState {
+  id?: string;
+  name: string;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  assigned_agent_id: string;
+  tags: string;
+  checklist: string;
+  due_in_hours: string;
+  schedule_kind: TaskTemplate['schedule_kind'];
+  schedule_expr: string;
+  timezone: string;
+}
+
+const emptyForm: FormState = {
+  name: '',
+  title: '',
+  description: '',
+  priority: 'medium',
+  assigned_agent_id: '',
+  tags: '',
+  checklist: '',
+  due_in_hours: '',
+  schedule_kind: 'cron',
+  schedule_expr: '0 9 * * 1',
+  timezone: 'America/Sao_Paulo',
+};
+
+const schedulePlaceholders: Record<TaskTemplate['schedule_kind'], string> = {
+  cron: '0 9 * * 1  (Mondays 09:00)',
+  every: '604800000  (milliseconds)',
+  at: '2026-12-01T09:00:00-03:00',
+};
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-600';
+const labelClass = 'block text-xs text-zinc-500 uppercase font-semibold tracking-wider mb-1';
+
+function toForm(template: TaskTemplate): FormState {
+  return {
+    id: template.id,
+    name: template.name,
+    title: template.title,
+    description: template.description || '',
+    priority: template.priority,
+    assigned_agent_id: template.assigned_agent_id || '',
+    tags: (template.tags || []).join(', '),
+    checklist: (template.checklist || []).join('\n'),
+    due_in_hours: template.due_in_hours?.toString() || '',
+    schedule_kind: template.schedule_kind,
+    schedule_expr: template.schedule_expr,
+    timezone: template.timezone || '',
+  };
+}
+
+export function TaskTemplateManager({ templates, agents }: TaskTemplateManagerProps) {
+  const router = useRouter();
+  const [form, setForm] = useState<FormState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const call = async (input: RequestInfo, init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(input, init);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      router.refresh();
+      return data;
+    } catch (err) {
+      console.error('Error updating templates:', err);
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const json = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const handleSave = async () => {
+    if (!form) return;
+    const lines = (value: string, separator: string | RegExp) =>
+      value.split(separator).map(v => v.trim()).filter(Boolean);
+
+    const payload = {
+      id: form.id,
+      name: form.name,
+      title: form.title,
+      description: form.description || null,
+      priority: form.priority,
+      assigned_agent_id: form.assigned_agent_id || null,
+      tags: lines(form.tags, ',').length > 0 ? lines(form.tags, ',') : null,
+      checklist: lines(form.checklist, '\n').length > 0 ? lines(form.checklist, '\n') : null,
+      due_in_hours: form.due_in_hours ? Number(form.due_in_hours) : null,
+      schedule_kind: form.schedule_kind,
+      schedule_expr: form.schedule_expr,
+      timezone: form.timezone || undefined,
+    };
+
+    const data = await call('/api/tasks/templates', json(form.id ? 'PATCH' : 'POST', payload));
+    if (data) setForm(null);
+  };
+
+  const handleToggle = (template: TaskTemplate) =>
+    call('/api/tasks/templates', json('PATCH', { id: template.id, enabled: !template.enabled }));
+
+  const handleRunNow = async (template: TaskTemplate) => {
+    const data = await call('/api/tasks/templates/run', json('POST', { templateId: template.id }));
+    if (data) setNotice(`Task created from "${template.name}"`);
+  };
+
+  const handleDelete = (template: TaskTemplate) => {
+    if (window.confirm(`Delete template "${template.name}"? Tasks it already created are kept.`)) {
+      call(`/api/tasks/templates?id=${template.id}`, { method: 'DELETE' });
+    }
+  };
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return '—';
+    return new Date(dateStr).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const agentName = (id: string | null) => agents.find(a => a.id === id)?.name;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="px-4 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm">{notice}</div>
+      )}
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-zinc-800 flex items-center justify-between">
+          <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">Templates</h2>
+          {!form && (
+            <button
+              onClick={() => setForm(emptyForm)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              + New Template
+            </button>
+          )}
+        </div>
+
+        {templates.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-zinc-600 italic text-center">No templates yet</p>
+        ) : (
+          <ul className="divide-y divide-zinc-800">
+            {templates.map(template => (
+              <li key={template.id} className={`px-6 py-4 flex items-center gap-4 ${template.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-zinc-200">{template.name}</span>
+                    <span className="text-[10px] uppercase font-bold text-zinc-500">{template.priority}</span>
+                    {agentName(template.assigned_agent_id) && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-blue-500/10 text-blue-400">{agentName(template.assigned_agent_id)}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-zinc-500 mt-1 truncate">“{template.title}” · {describeSchedule(template)}</p>
+                  <p className="text-xs text-zinc-600 mt-0.5">
+                    Next: {template.enabled ? formatDate(template.next_run_at) : 'paused'} · Last: {formatDate(template.last_run_at)}
+                    {template.last_task_id && (
+                      <> · <Link href={`/tasks/${template.last_task_id}`} className="text-zinc-400 hover:text-white">last task</Link></>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <button onClick={() => handleToggle(template)} disabled={isSaving} className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+                    {template.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button onClick={() => handleRunNow(template)} disabled={isSaving} className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+                    Run now
+                  </button>
+                  <button onClick={() => setForm(toForm(template))} disabled={isSaving} className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(template)} disabled={isSaving} className="px-2 py-1 rounded border border-red-500/20 text-red-400 hover:bg-red-500/10 disabled:opacity-50">
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {form && (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+          <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider">
+            {form.id ? 'Edit template' : 'New template'}
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Template name</label>
+              <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} placeholder="Weekly SEO audit" />
+            </div>
+            <div>
+              <label className={labelClass}>Task title</label>
+              <input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} className={inputClass} placeholder="SEO audit" />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} className={`${inputClass} h-20 resize-none`} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Priority</label>
+              <select value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value as TaskPriority })} className={inputClass}>
+                {(['critical', 'high', 'medium', 'low'] as TaskPriority[]).map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Assignee</label>
+              <select value={form.assigned_agent_id} onChange={(e) => setForm({ ...form, assigned_agent_id: e.target.value })} className={inputClass}>
+                <option value="">Unassigned</option>
+                {agents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Due in (hours)</label>
+              <input type="number" min={1} value={form.due_in_hours} onChange={(e) => setForm({ ...form, due_in_hours: e.target.value })} className={inputClass} placeholder="Priority SLA" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Tags (comma separated)</label>
+              <input value={form.tags} onChange={(e) => setForm({ ...form, tags: e.target.value })} className={inputClass} placeholder="seo, recurring" />
+            </div>
+            <div>
+              <label className={labelClass}>Checklist (one per line)</label>
+              <textarea value={form.checklist} onChange={(e) => setForm({ ...form, checklist: e.target.value })} className={`${inputClass} h-20 resize-none`} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Schedule</label>
+              <select value={form.schedule_kind} onChange={(e) => setForm({ ...form, schedule_kind: e.target.value as FormState['schedule_kind'] })} className={inputClass}>
+                <option value="cron">Cron expression</option>
+                <option value="every">Fixed interval</option>
+                <option value="at">Once</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Expression</label>
+              <input value={form.schedule_expr} onChange={(e) => setForm({ ...form, schedule_expr: e.target.value })} className={`${inputClass} font-mono`} placeholder={schedulePlaceholders[form.schedule_kind]} />
+            </div>
+            <div>
+              <label className={labelClass}>Timezone</label>
+              <input value={form.timezone} onChange={(e) => setForm({ ...form, timezone: e.target.value })} className={inputClass} placeholder="America/Sao_Paulo" />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={() => setForm(null)} className="px-3 py-1.5 text-sm text-zinc-400 hover:text-zinc-200 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !form.name.trim() || !form.title.trim() || !form.schedule_expr.trim()}
+              className="px-4 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-sm text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save template'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Agent, TaskHistory } from '@/lib/supabase-client';
+
+interface TaskTimelineProps {
+  history: TaskHistory[];
+  agents: Agent[];
+}
+
+const fieldLabels: Record<string, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  assigned_agent_id: 'Assignee',
+  description: 'Description',
+  blocked_reason: 'Block reason',
+  due_date: 'Due date',
+  tags: 'Tags',
+  required_capabilities: 'Required capabilities',
+};
+
+const actionColors: Record<string, string> = {
+  completed: 'bg-emerald-500',
+  unblocked: 'bg-emerald-500',
+  started: 'bg-amber-500',
+  blocked: 'bg-red-500',
+  error: 'bg-red-500',
+  commented: 'bg-blue-500',
+  auto_assigned: 'bg-blue-500',
+  auto_assign_failed: 'bg-amber-500',
+  claimed: 'bg-amber-500',
+  released: 'bg-zinc-500',
+  lease_expired: 'bg-red-500',
+  unassigned: 'bg-zinc-500',
+  blocker_opened: 'bg-amber-500',
+  blocker_resolved: 'bg-emerald-500',
+  updated: 'bg-zinc-500',
+};
+
+export function TaskTimeline({ history, agents }: TaskTimelineProps) {
+  const agentName = (id: unknown) =>
+    agents.find(a => a.id === id)?.name || (id ? String(id).slice(0, 8) : 'Unassigned');
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const formatValue = (field: string, value: unknown) => {
+    if (field === 'assigned_agent_id') return agentName(value);
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'due_date') return formatDate(String(value));
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    return String(value).replace('_', ' ');
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6">
+      <h2 className="text-sm text-zinc-500 uppercase font-semibold tracking-wider mb-4">Activity</h2>
+
+      {history.length === 0 ? (
+        <p className="text-sm text-zinc-600 italic">No activity recorded</p>
+      ) : (
+        <ol className="relative border-l border-zinc-800 ml-1.5 space-y-5">
+          {history.map(entry => {
+            const changes = Object.entries(entry.changes || {});
+            // Change lists already say what happened; skip the generated summary note
+            const showNote = entry.note && (changes.length === 0 || entry.action !== 'updated');
+
+            return (
+              <li key={entry.id} className="ml-5">
+                <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-zinc-900 ${actionColors[entry.action] || 'bg-zinc-600'}`}></span>
+                <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                  <span className={`font-medium ${entry.agent ? 'text-blue-400' : 'text-zinc-200'}`}>
+                    {entry.agent?.name || entry.actor || 'System'}
+                  </span>
+                  <span className="text-zinc-400">{entry.action.replace(/_/g, ' ')}</span>
+                  <span className="text-xs text-zinc-600">{formatDate(entry.created_at)}</span>
+                </div>
+
+                {changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {changes.map(([field, { from, to }]) => (
+                      <li key={field} className="text-xs text-zinc-500">
+                        <span className="text-zinc-400">{fieldLabels[field] || field}</span>
+                        {field === 'description' ? (
+                          <span> edited</span>
+                        ) : (
+                          <>
+                            {': '}
+                            <span className="line-through text-zinc-600">{formatValue(field, from)}</span>
+                            {' → '}
+                            <span className="text-zinc-300">{formatValue(field, to)}</span>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {showNote && (
+                  <p className="mt-1 text-xs text-zinc-500 whitespace-pre-wrap">{entry.note}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { createSupabaseBrowserClient, getUserRole, UserRole } from '@/lib/auth';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+const roleColors: Record<UserRole, string> = {
+  viewer: 'bg-zinc-800 text-zinc-400',
+  operator: 'bg-blue-900/50 text-blue-300',
+  admin: 'bg-purple-900/50 text-purple-300',
+};
+
+// Loaded in the browser so pages keep their ISR caching
+export function UserMenu() {
+  const [user, setUser] = useState<{ email: string; role: UserRole } | null | undefined>(undefined);
+
+  useEffect(() => {
+    const supabase = createSupabaseBrowserClient();
+
+    const load = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setUser(null);
+        return;
+      }
+      setUser({ email: user.email || '', role: await getUserRole(supabase, user.id) });
+    };
+
+    load();
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
+      load();
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  if (user === undefined) return null;
+
+  if (!user) {
+    return (
+      <Link href="/login" className="px-4 py-2 text-sm font-medium text-zinc-400 hover:text-white hover:bg-zinc-800/50 rounded-lg transition-all">
+        Entrar
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="hidden sm:flex flex-col items-end">
+        <span className="text-xs text-zinc-300 max-w-[180px] truncate">{user.email}</span>
+        <span className={`text-[10px] font-semibold uppercase tracking-widest px-1.5 rounded ${roleColors[user.role]}`}>
+          {user.role}
+        </span>
+      </div>
+      <form action="/auth/signout" method="post">
+        <button
+          type="submit"
+          className="px-3 py-1.5 text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800/50 rounded-lg transition-all"
+        >
+          Sair
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import type { Task, TaskPriority, TaskStatus } from './supabase-client';
+import type { ReportResult, WakeResult } from './agent-service';
+
+// Request and response bodies of the agent-facing API. Type-only: the routes
+// and the client SDK (sdk/) both import from here, so neither can drift from
+// the other without a type error. Nothing here may pull in server code at
+// runtime.
+
+export interface ApiError {
+  error: string;
+}
+
+// POST /api/agents/wake
+export interface WakeRequest {
+  agentId: string;
+  agentName: string;
+}
+
+export type WakeResponse = { success: true } & WakeResult;
+
+// POST /api/agents/report
+export interface ReportRequest {
+  agentId: string;
+  summary: string;
+  findings?: string[];
+  // The agent's current blockers: new ones open, ones left out resolve
+  blockers?: (string | { description: string; taskId?: string })[];
+  tasksCompleted?: string[];
+  tasksStarted?: string[];
+  checklistCompleted?: string[];
+  cronStartedAt?: string;
+}
+
+export type ReportResponse = { success: true } & Omit<ReportResult, 'tasksCompleted' | 'tasksStarted'> & {
+  // Counts; the ids moved are in the task history
+  tasksCompleted: number;
+  tasksStarted: number;
+};
+
+// POST /api/agents/memory
+export interface MemoryRequest {
+  agentId: string;
+  content: string;
+  memoryType?: string;
+  key?: string;
+}
+
+export interface MemoryEntryResponse {
+  id: string;
+  agent_id: string;
+  memory_type: string;
+  key: string;
+  content: string;
+  created_at: string;
+}
+
+// POST /api/cron/runs
+export type CronRunStatus = 'pending' | 'running' | 'ok' | 'error' | 'timeout';
+
+export interface CronRunRequest {
+  jobId: string;
+  jobName: string;
+  startedAt: string;
+  completedAt?: string;
+  status: CronRunStatus;
+  durationMs?: number;
+  errorMessage?: string;
+  resultSummary?: string;
+}
+
+export interface CronRunResponse {
+  success: true;
+  runId: string;
+}
+
+// GET /api/tasks
+export interface TaskListQuery {
+  status?: TaskStatus[];
+  assignee?: string;
+  priority?: TaskPriority[];
+  updated_since?: string;
+  q?: string;
+  tag?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TaskListResponse {
+  data: Task[];
+  nextCursor: string | null;
+  limit: number;
+}
+
+// POST /api/tasks
+export interface CreateTaskRequest {
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  due_date?: string;
+  deliverables?: string[];
+  owner?: string;
+  required_capabilities?: string[];
+  auto_assign?: boolean;
+  agentId?: string;
+}
+
+export interface CreateTaskResponse {
+  message: string;
+  id: string;
+  assigned_agent_id: string | null;
+  assignment?: string;
+  // Steps that failed after the task was created (checklist, auto-assignment)
+  warnings?: string[];
+}
+
+// PATCH /api/tasks
+export interface UpdateTaskRequest {
+  taskId?: string;
+  title?: string;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  assigned_agent_id?: string | null;
+  description?: string | null;
+  position?: number;
+  blocked_reason?: string;
+  due_date?: string | null;
+  required_capabilities?: string[] | null;
+  agentId?: string;
+}
+
+export interface UpdateTaskResponse {
+  message: string;
+}
@@ -0,0 +1,157 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseServer } from './supabase-server';
+import { AgentToken } from './supabase-client';
+import { authorizeUser, SessionUser } from './auth-server';
+
+// Per-agent API tokens (migration 016). Agents send `Authorization: Bearer
+// <token>`; the token identifies the agent, so an agentId in the body must
+// match it. Only the SHA-256 hash is stored.
+
+export const AGENT_TOKEN_PREFIX = 'amp_';
+
+export interface AgentAuthResult {
+  ok: boolean;
+  // Agent the token belongs to; null for dashboard requests
+  agentId: string | null;
+  // Logged-in user behind a dashboard request; null for agent requests
+  user?: SessionUser | null;
+  // Set when ok is false
+  status?: 401 | 403;
+  error?: string;
+}
+
+export function generateAgentToken(): string {
+  return AGENT_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+}
+
+export function hashAgentToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Authenticates the agent behind the request's bearer token. When the body
+ * names an agent (claimedAgentId) it has to be the token's own agent.
+ */
+export async function authenticateAgent(request: Request, claimedAgentId?: unknown): Promise<AgentAuthResult> {
+  const token = bearerToken(request);
+  if (!token) {
+    return { ok: false, agentId: null, status: 401, error: 'Agent token required (Authorization: Bearer <token>)' };
+  }
+
+  const { data, error } = await supabaseServer
+    .from('agent_tokens')
+    .select('id, agent_id')
+    .eq('token_hash', hashAgentToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking agent token:', error);
+  }
+  if (!data) {
+    return { ok: false, agentId: null, status: 401, error: 'Invalid or revoked agent token' };
+  }
+
+  if (claimedAgentId !== undefined && claimedAgentId !== null && claimedAgentId !== data.agent_id) {
+    return { ok: false, agentId: null, status: 403, error: 'Token does not belong to this agent' };
+  }
+
+  // Bookkeeping only; never fails the request
+  supabaseServer
+    .from('agent_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id)
+    .then(({ error: touchError }) => {
+      if (touchError) console.error('Error updating token last_used_at:', touchError);
+    });
+
+  return { ok: true, agentId: data.agent_id };
+}
+
+/**
+ * Task routes are shared by the dashboard and agents. Requests with a token
+ * are agent requests (agentId bound to the token); requests without one need
+ * a logged-in operator and cannot act as an agent.
+ */
+export async function authorizeTaskWrite(request: Request, agentId?: unknown): Promise<AgentAuthResult> {
+  if (bearerToken(request)) {
+    return authenticateAgent(request, agentId);
+  }
+  const session = await authorizeUser('operator');
+  if (!session.ok) {
+    return { ok: false, agentId: null, user: session.user, status: session.status, error: session.error };
+  }
+  if (agentId) {
+    return { ok: false, agentId: null, user: session.user, status: 401, error: 'Acting as an agent requires that agent\'s token' };
+  }
+  return { ok: true, agentId: null, user: session.user };
+}
+
+// Reads shared by the dashboard and agents: an agent token, or a logged-in viewer
+export async function authorizeTaskRead(request: Request): Promise<AgentAuthResult> {
+  if (bearerToken(request)) {
+    return authenticateAgent(request);
+  }
+  const session = await authorizeUser('viewer');
+  return { ok: session.ok, agentId: null, user: session.user, status: session.status, error: session.error };
+}
+
+/**
+ * Agent requests are attributed to the token's agent. Returns an error when
+ * the body also names a person (authorName, unblockedBy, actor...), which
+ * would let an agent write history as someone else.
+ */
+export function agentNameFieldError(auth: AgentAuthResult, fields: Record<string, unknown>): string | null {
+  if (!auth.agentId) return null;
+  const named = Object.keys(fields).filter(key => fields[key] !== undefined && fields[key] !== null);
+  return named.length > 0 ? `${named.join(', ')} cannot be set with an agent token` : null;
+}
+
+export const AGENT_TOKEN_COLUMNS = 'id, agent_id, name, token_prefix, created_at, last_used_at, revoked_at';
+
+/**
+ * Creates a token for an agent. The plaintext token is only returned here;
+ * afterwards it cannot be recovered, only rotated.
+ */
+export async function issueAgentToken(agentId: string, name: string): Promise<{ token: string; record: AgentToken }> {
+  const token = generateAgentToken();
+  const { data, error } = await supabaseServer
+    .from('agent_tokens')
+    .insert({
+      agent_id: agentId,
+      name,
+      token_hash: hashAgentToken(token),
+      token_prefix: token.slice(0, AGENT_TOKEN_PREFIX.length + 8)
+    })
+    .select(AGENT_TOKEN_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to issue agent token: ${error?.message}`);
+  }
+
+  return { token, record: data as AgentToken };
+}
+
+// Revokes a token; returns the revoked row, or null if it was not active
+export async function revokeAgentToken(tokenId: string): Promise<AgentToken | null> {
+  const { data, error } = await supabaseServer
+    .from('agent_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .is('revoked_at', null)
+    .select(AGENT_TOKEN_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke agent token: ${error.message}`);
+  }
+
+  return data as AgentToken | null;
+}
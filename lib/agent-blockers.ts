@@ -0,0 +1,214 @@
+import { supabaseServer } from './supabase-server';
+import { AgentBlocker } from './supabase-client';
+
+// Blockers from heartbeat reports (POST /api/agents/report). Each report is
+// the agent's full list of current blockers: new ones are opened, repeated
+// ones are matched by fingerprint and bumped, and open ones the report no
+// longer mentions are resolved.
+
+export interface BlockerInput {
+  description: string;
+  taskId: string | null;
+}
+
+export interface BlockerSyncResult {
+  opened: number;
+  ongoing: number;
+  resolved: number;
+}
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export const BLOCKER_SELECT = '*, agent:agents(id, name), task:tasks(id, title, status)';
+
+// Case, whitespace and trailing punctuation don't make a new blocker
+export function blockerFingerprint(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!;:,]+$/, '')
+    .trim();
+}
+
+/**
+ * Reads the report's blockers field: strings, or { description, taskId? }
+ * objects linking the blocker to a task. Empty entries are dropped and
+ * duplicates (same fingerprint) collapsed, keeping the first task link.
+ */
+export function parseBlockers(value: unknown): { blockers: BlockerInput[]; error: string | null } {
+  if (value === undefined || value === null) return { blockers: [], error: null };
+  if (!Array.isArray(value)) {
+    return { blockers: [], error: 'blockers must be an array' };
+  }
+
+  const byFingerprint = new Map<string, BlockerInput>();
+  for (const item of value) {
+    let description: unknown = item;
+    let taskId: unknown = null;
+    if (item && typeof item === 'object') {
+      description = (item as Record<string, unknown>).description;
+      taskId = (item as Record<string, unknown>).taskId ?? null;
+    }
+
+    if (typeof description !== 'string') {
+      return { blockers: [], error: 'Each blocker must be a string or { description: string, taskId?: string }' };
+    }
+    if (taskId !== null && typeof taskId !== 'string') {
+      return { blockers: [], error: 'Blocker taskId must be a string' };
+    }
+
+    const text = description.trim().slice(0, MAX_DESCRIPTION_LENGTH);
+    const fingerprint = blockerFingerprint(text);
+    if (!fingerprint || byFingerprint.has(fingerprint)) continue;
+    byFingerprint.set(fingerprint, { description: text, taskId: taskId as string | null });
+  }
+
+  return { blockers: Array.from(byFingerprint.values()), error: null };
+}
+
+// Blocker events go to the activity feed (and the task timeline when linked).
+// Logging must never fail the report, so errors are reported and swallowed.
+async function logBlockerEvents(action: 'blocker_opened' | 'blocker_resolved', agentId: string, blockers: { description: string; task_id: string | null }[]) {
+  if (blockers.length === 0) return;
+
+  const { error } = await supabaseServer.from('task_history').insert(
+    blockers.map(blocker => ({
+      task_id: blocker.task_id,
+      agent_id: agentId,
+      action,
+      note: blocker.description
+    }))
+  );
+  if (error) {
+    console.error('Error recording blocker history:', error);
+  }
+}
+
+/**
+ * Reconciles an agent's open blockers with the blockers of its latest report.
+ * Task links to unknown tasks are dropped rather than failing the report.
+ */
+export async function syncAgentBlockers(agentId: string, blockers: BlockerInput[], now: string): Promise<BlockerSyncResult> {
+  const { data: open, error } = await supabaseServer
+    .from('agent_blockers')
+    .select('id, fingerprint, description, task_id, report_count')
+    .eq('agent_id', agentId)
+    .eq('status', 'open');
+
+  if (error) throw new Error(`Failed to load agent blockers: ${error.message}`);
+
+  const linkedIds = Array.from(new Set(blockers.map(b => b.taskId).filter((id): id is string => !!id)));
+  let knownTaskIds = new Set<string>();
+  if (linkedIds.length > 0) {
+    const { data: tasks, error: tasksError } = await supabaseServer
+      .from('tasks')
+      .select('id')
+      .in('id', linkedIds);
+
+    if (tasksError) throw new Error(`Failed to load blocker tasks: ${tasksError.message}`);
+    knownTaskIds = new Set((tasks || []).map(t => t.id));
+  }
+
+  const openByFingerprint = new Map((open || []).map(row => [row.fingerprint, row]));
+  const reported = new Set<string>();
+  const opened: { description: string; task_id: string | null }[] = [];
+  let ongoing = 0;
+
+  for (const blocker of blockers) {
+    const fingerprint = blockerFingerprint(blocker.description);
+    const taskId = blocker.taskId && knownTaskIds.has(blocker.taskId) ? blocker.taskId : null;
+    reported.add(fingerprint);
+
+    const existing = openByFingerprint.get(fingerprint);
+    if (existing) {
+      // A report that omits the task link doesn't clear an earlier one
+      const { error: updateError } = await supabaseServer
+        .from('agent_blockers')
+        .update({
+          description: blocker.description,
+          task_id: taskId || existing.task_id,
+          report_count: (existing.report_count || 0) + 1,
+          last_reported_at: now
+        })
+        .eq('id', existing.id);
+
+      if (updateError) throw new Error(`Failed to update blocker ${existing.id}: ${updateError.message}`);
+      ongoing++;
+      continue;
+    }
+
+    const { error: insertError } = await supabaseServer
+      .from('agent_blockers')
+      .insert({
+        agent_id: agentId,
+        task_id: taskId,
+        description: blocker.description,
+        fingerprint,
+        first_reported_at: now,
+        last_reported_at: now
+      });
+
+    // A concurrent report already opened it
+    if (insertError && insertError.code !== '23505') {
+      throw new Error(`Failed to open blocker: ${insertError.message}`);
+    }
+    if (!insertError) opened.push({ description: blocker.description, task_id: taskId });
+  }
+
+  const dropped = (open || []).filter(row => !reported.has(row.fingerprint));
+  if (dropped.length > 0) {
+    const { error: resolveError } = await supabaseServer
+      .from('agent_blockers')
+      .update({ status: 'resolved', resolved_at: now, resolved_by: 'report' })
+      .in('id', dropped.map(row => row.id))
+      .eq('status', 'open');
+
+    if (resolveError) throw new Error(`Failed to resolve blockers: ${resolveError.message}`);
+  }
+
+  await logBlockerEvents('blocker_opened', agentId, opened);
+  await logBlockerEvents('blocker_resolved', agentId, dropped);
+
+  return { opened: opened.length, ongoing, resolved: dropped.length };
+}
+
+/**
+ * Resolves an open blocker by hand. If the agent reports it again it is
+ * opened as a new blocker. Returns null if it was not open.
+ */
+export async function resolveBlocker(blockerId: string, actor?: string | null): Promise<AgentBlocker | null> {
+  const { data, error } = await supabaseServer
+    .from('agent_blockers')
+    .update({
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+      resolved_by: actor || 'operator'
+    })
+    .eq('id', blockerId)
+    .eq('status', 'open')
+    .select(BLOCKER_SELECT)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to resolve blocker: ${error.message}`);
+  if (!data) return null;
+
+  await logBlockerEvents('blocker_resolved', data.agent_id, [data]);
+  return data as AgentBlocker;
+}
+
+// Open blockers of a retired agent won't be reported again; close them
+export async function resolveAgentBlockers(agentId: string, actor?: string | null): Promise<number> {
+  const { data, error } = await supabaseServer
+    .from('agent_blockers')
+    .update({
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+      resolved_by: actor || 'operator'
+    })
+    .eq('agent_id', agentId)
+    .eq('status', 'open')
+    .select('id');
+
+  if (error) throw new Error(`Failed to resolve agent blockers: ${error.message}`);
+  return data?.length ?? 0;
+}
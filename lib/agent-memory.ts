@@ -0,0 +1,149 @@
+import { supabaseServer } from './supabase-server';
+import { beforeCursorFilter, Cursor, encodeCursor } from './pagination';
+import { MemoryReport, parseMemoryReport } from './memory-report';
+
+// Reads behind the memory explorer (/agents/memory and GET /api/agents/memory)
+
+export interface AgentMemoryEntry {
+  id: string;
+  agent_id: string | null;
+  memory_type: string | null;
+  key: string | null;
+  content: string | null;
+  created_at: string;
+  agent: { id: string; name: string } | null;
+  // Parsed payload for heartbeat reports, null for plain-text memories
+  report: MemoryReport | null;
+}
+
+export interface MemoryFilters {
+  agentId?: string;
+  memoryType?: string;
+  q?: string;
+}
+
+export interface MemoryPage {
+  data: AgentMemoryEntry[];
+  nextCursor: string | null;
+}
+
+const MEMORY_COLUMNS = 'id, agent_id, memory_type, key, content, created_at, agent:agents(id, name)';
+
+// Rows come from MEMORY_COLUMNS (with the agent join), so the scalar columns
+// have the types below; content may be jsonb in older rows
+function toEntry(row: Record<string, unknown>): AgentMemoryEntry {
+  const { content } = row;
+  return {
+    id: row.id as string,
+    agent_id: row.agent_id as string | null,
+    memory_type: row.memory_type as string | null,
+    key: row.key as string | null,
+    content: typeof content === 'string' ? content : content == null ? null : JSON.stringify(content),
+    created_at: row.created_at as string,
+    agent: (row.agent as AgentMemoryEntry['agent']) || null,
+    report: parseMemoryReport(content),
+  };
+}
+
+// Filters from ?agentId=&type=&q=, shared by the API route and the page
+export function parseMemoryFilters(params: URLSearchParams): MemoryFilters {
+  const filters: MemoryFilters = {};
+  const agentId = params.get('agentId');
+  const memoryType = params.get('type');
+  const q = params.get('q')?.trim();
+  if (agentId) filters.agentId = agentId;
+  if (memoryType) filters.memoryType = memoryType;
+  if (q) filters.q = q;
+  return filters;
+}
+
+/**
+ * Memory entries newest first. q is a websearch query over report summaries
+ * and findings (plus blockers and plain-text content at lower weight), see
+ * migration 019. Throws on query errors.
+ */
+export async function searchAgentMemory(
+  filters: MemoryFilters,
+  limit: number,
+  cursor: Cursor | null = null
+): Promise<MemoryPage> {
+  const query = supabaseServer
+    .from('agent_memory')
+    .select(MEMORY_COLUMNS);
+
+  if (filters.agentId) query.eq('agent_id', filters.agentId);
+  if (filters.memoryType) query.eq('memory_type', filters.memoryType);
+  if (filters.q) {
+    query.textSearch('search_vector', filters.q, { config: 'simple', type: 'websearch' });
+  }
+  if (cursor) query.or(beforeCursorFilter(cursor));
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const page = rows.slice(0, limit);
+  return {
+    data: page.map(toEntry),
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * The report written by the same agent, with the same memory_type, right
+ * before the given entry. Returns null when the entry is the agent's first
+ * or does not exist.
+ */
+export async function getPreviousMemory(memoryId: string): Promise<AgentMemoryEntry | null> {
+  const { data: entry, error } = await supabaseServer
+    .from('agent_memory')
+    .select('id, agent_id, memory_type, created_at')
+    .eq('id', memoryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!entry || !entry.agent_id) return null;
+
+  const query = supabaseServer
+    .from('agent_memory')
+    .select(MEMORY_COLUMNS)
+    .eq('agent_id', entry.agent_id);
+
+  if (entry.memory_type) {
+    query.eq('memory_type', entry.memory_type);
+  } else {
+    query.is('memory_type', null);
+  }
+
+  const { data: previous, error: previousError } = await query
+    .or(beforeCursorFilter({ createdAt: entry.created_at, id: entry.id }))
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (previousError) throw previousError;
+  return previous ? toEntry(previous) : null;
+}
+
+// Distinct memory_type values among recent entries, for the type filter
+export async function getMemoryTypes(): Promise<string[]> {
+  const { data, error } = await supabaseServer
+    .from('agent_memory')
+    .select('memory_type')
+    .not('memory_type', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1000);
+
+  if (error) {
+    console.error('Error fetching memory types:', error);
+    return [];
+  }
+
+  return Array.from(new Set((data || []).map(row => row.memory_type as string))).sort();
+}
@@ -0,0 +1,151 @@
+import { supabaseServer } from './supabase-server';
+import { Agent, AgentHeartbeat, Task } from './supabase-client';
+import { MemoryReport, parseMemoryReport } from './memory-report';
+
+// Everything the /agents/[id] page shows about one agent, from Supabase
+
+export interface AgentReport extends MemoryReport {
+  id: string;
+  created_at: string;
+}
+
+export interface AgentCronJob {
+  id: string;
+  name: string;
+  enabled: boolean;
+  schedule_kind: 'cron' | 'every' | 'at';
+  schedule_expr: string;
+  last_run_at: string | null;
+  last_status: string | null;
+  last_error: string | null;
+  consecutive_errors: number | null;
+}
+
+export interface AgentRunStats {
+  // Finished runs of the agent's cron jobs in the window
+  total: number;
+  ok: number;
+  failed: number;
+  // ok / total, null without finished runs
+  successRate: number | null;
+  windowDays: number;
+}
+
+export interface AgentProfileData {
+  agent: Agent;
+  heartbeats: AgentHeartbeat[];
+  tasks: Pick<Task, 'id' | 'title' | 'status' | 'priority' | 'due_date' | 'updated_at'>[];
+  reports: AgentReport[];
+  cronJobs: AgentCronJob[];
+  runStats: AgentRunStats;
+}
+
+const RUN_STATS_DAYS = 30;
+
+// An unreadable payload still shows when the report came in
+function parseReport(row: { id: string; content: unknown; created_at: string }): AgentReport {
+  const report = parseMemoryReport(row.content);
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    summary: report?.summary ?? null,
+    findings: report?.findings || [],
+    blockers: report?.blockers || [],
+    tasksCompleted: report?.tasksCompleted || [],
+    tasksStarted: report?.tasksStarted || [],
+  };
+}
+
+function computeRunStats(statuses: string[], windowDays: number = RUN_STATS_DAYS): AgentRunStats {
+  const finished = statuses.filter(s => s === 'ok' || s === 'error' || s === 'timeout');
+  const ok = finished.filter(s => s === 'ok').length;
+  return {
+    total: finished.length,
+    ok,
+    failed: finished.length - ok,
+    successRate: finished.length > 0 ? ok / finished.length : null,
+    windowDays,
+  };
+}
+
+/**
+ * Loads an agent by UUID with its recent heartbeats, tasks (open first,
+ * then the latest done), heartbeat reports, cron jobs and cron run success
+ * rate. Returns null when the agent does not exist; retired agents are
+ * returned so their history stays reachable.
+ */
+export async function getAgentProfile(agentId: string): Promise<AgentProfileData | null> {
+  const { data: agent, error } = await supabaseServer
+    .from('agents')
+    .select('*')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching agent:', error);
+    return null;
+  }
+  if (!agent) return null;
+
+  const since = new Date(Date.now() - RUN_STATS_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [heartbeats, openTasks, doneTasks, reports, cronJobs] = await Promise.all([
+    supabaseServer
+      .from('agent_heartbeats')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .limit(50),
+    supabaseServer
+      .from('tasks')
+      .select('id, title, status, priority, due_date, updated_at')
+      .eq('assigned_agent_id', agentId)
+      .neq('status', 'done')
+      .order('position', { ascending: true, nullsFirst: false }),
+    supabaseServer
+      .from('tasks')
+      .select('id, title, status, priority, due_date, updated_at')
+      .eq('assigned_agent_id', agentId)
+      .eq('status', 'done')
+      .order('updated_at', { ascending: false })
+      .limit(20),
+    supabaseServer
+      .from('agent_memory')
+      .select('id, content, created_at')
+      .eq('agent_id', agentId)
+      .eq('memory_type', 'heartbeat_report')
+      .order('created_at', { ascending: false })
+      .limit(20),
+    supabaseServer
+      .from('cron_jobs')
+      .select('id, name, enabled, schedule_kind, schedule_expr, last_run_at, last_status, last_error, consecutive_errors')
+      .eq('agent_id', agentId)
+      .order('name'),
+  ]);
+
+  for (const result of [heartbeats, openTasks, doneTasks, reports, cronJobs]) {
+    if (result.error) console.error('Error fetching agent profile:', result.error);
+  }
+
+  const jobIds = (cronJobs.data || []).map(job => job.id);
+  let runStatuses: string[] = [];
+  if (jobIds.length > 0) {
+    const { data: runs, error: runsError } = await supabaseServer
+      .from('cron_runs')
+      .select('status')
+      .in('job_id', jobIds)
+      .gte('started_at', since);
+
+    if (runsError) console.error('Error fetching cron runs:', runsError);
+    runStatuses = (runs || []).map(run => run.status);
+  }
+
+  return {
+    agent,
+    heartbeats: heartbeats.data || [],
+    tasks: [...(openTasks.data || []), ...(doneTasks.data || [])],
+    reports: (reports.data || []).map(parseReport),
+    cronJobs: cronJobs.data || [],
+    runStats: computeRunStats(runStatuses),
+  };
+}
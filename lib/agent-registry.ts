@@ -0,0 +1,140 @@
+import { supabaseServer } from './supabase-server';
+import { Agent } from './supabase-client';
+import { normalizeCapabilities } from './task-assignment';
+import { recordTaskChanges } from './task-history';
+import { resolveAgentBlockers } from './agent-blockers';
+
+// Editable profile fields of an agent (POST/PATCH /api/agents)
+export interface AgentProfileInput {
+  name?: unknown;
+  role?: unknown;
+  capabilities?: unknown;
+  memory_path?: unknown;
+}
+
+export type AgentProfile = Partial<Pick<Agent, 'name' | 'role' | 'capabilities' | 'memory_path'>>;
+
+/**
+ * Validates and normalizes profile fields. Only fields present in the input
+ * are returned, so the result can be used for partial updates.
+ */
+export function parseAgentProfile(input: AgentProfileInput): { profile: AgentProfile; error: string | null } {
+  const profile: AgentProfile = {};
+
+  const { name, role, capabilities, memory_path } = input;
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return { profile, error: 'name must be a non-empty string' };
+    }
+    profile.name = name.trim();
+  }
+  if (role !== undefined) {
+    if (role !== null && typeof role !== 'string') {
+      return { profile, error: 'role must be a string' };
+    }
+    profile.role = typeof role === 'string' && role.trim() ? role.trim() : null;
+  }
+  if (capabilities !== undefined) {
+    if (capabilities !== null &&
+        (!Array.isArray(capabilities) || !capabilities.every(c => typeof c === 'string'))) {
+      return { profile, error: 'capabilities must be an array of strings' };
+    }
+    profile.capabilities = Array.isArray(capabilities) ? normalizeCapabilities(capabilities as string[]) : null;
+  }
+  if (memory_path !== undefined) {
+    if (memory_path !== null && typeof memory_path !== 'string') {
+      return { profile, error: 'memory_path must be a string' };
+    }
+    profile.memory_path = typeof memory_path === 'string' && memory_path.trim() ? memory_path.trim() : null;
+  }
+
+  return { profile, error: null };
+}
+
+export interface RetireResult {
+  tokensRevoked: number;
+  tasksUnassigned: number;
+  blockersResolved: number;
+}
+
+/**
+ * Retires an agent: it is marked offline, its API tokens are revoked, its
+ * open blockers are resolved and its open tasks return to the queue (logged
+ * to task_history). The agent row, its history and reports are kept.
+ * Returns null if the agent was not active.
+ */
+export async function retireAgent(agentId: string, actor?: string | null): Promise<RetireResult | null> {
+  const now = new Date().toISOString();
+
+  const { data: agent, error } = await supabaseServer
+    .from('agents')
+    .update({ retired_at: now, status: 'offline', updated_at: now })
+    .eq('id', agentId)
+    .is('retired_at', null)
+    .select('id, name')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to retire agent: ${error.message}`);
+  if (!agent) return null;
+
+  const { data: tokens, error: tokensError } = await supabaseServer
+    .from('agent_tokens')
+    .update({ revoked_at: now })
+    .eq('agent_id', agentId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (tokensError) throw new Error(`Failed to revoke agent tokens: ${tokensError.message}`);
+
+  const blockersResolved = await resolveAgentBlockers(agentId, actor || 'retired');
+
+  const { data: tasks, error: tasksError } = await supabaseServer
+    .from('tasks')
+    .select('id, status')
+    .eq('assigned_agent_id', agentId)
+    .neq('status', 'done');
+
+  if (tasksError) throw new Error(`Failed to load agent tasks: ${tasksError.message}`);
+
+  // Work in progress goes back to the queue, like an expired lease
+  for (const task of tasks || []) {
+    const updates = {
+      assigned_agent_id: null,
+      ...(task.status === 'in_progress' && { status: 'todo' })
+    };
+    const { error: updateError } = await supabaseServer
+      .from('tasks')
+      .update({ ...updates, lease_agent_id: null, lease_expires_at: null, updated_at: now })
+      .eq('id', task.id);
+
+    if (updateError) throw new Error(`Failed to unassign task ${task.id}: ${updateError.message}`);
+  }
+
+  await recordTaskChanges((tasks || []).map(task => ({
+    taskId: task.id,
+    action: 'unassigned',
+    changes: {
+      assigned_agent_id: { from: agentId, to: null },
+      ...(task.status === 'in_progress' && { status: { from: 'in_progress', to: 'todo' } })
+    },
+    note: `Agent ${agent.name} was retired`,
+    actor: actor || null
+  })));
+
+  return { tokensRevoked: tokens?.length ?? 0, tasksUnassigned: tasks?.length ?? 0, blockersResolved };
+}
+
+// Brings a retired agent back. Tokens stay revoked; issue new ones.
+export async function restoreAgent(agentId: string): Promise<boolean> {
+  const { data, error } = await supabaseServer
+    .from('agents')
+    .update({ retired_at: null, status: 'idle', updated_at: new Date().toISOString() })
+    .eq('id', agentId)
+    .not('retired_at', 'is', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to restore agent: ${error.message}`);
+  return !!data;
+}
@@ -0,0 +1,143 @@
+import { BlockerInput, parseBlockers } from './agent-blockers';
+
+// Payloads agents send and the rows agent writes produce. The Supabase
+// clients are untyped, so these insert shapes are what keeps column names in
+// agent writes checked at compile time (see migration 021 for the columns).
+
+export interface TaskHistoryInsert {
+  task_id: string | null;
+  agent_id: string | null;
+  action: string;
+  note: string | null;
+  changes?: Record<string, { from: unknown; to: unknown }> | null;
+  actor?: string | null;
+}
+
+export interface AgentMemoryInsert {
+  agent_id: string;
+  memory_type: string;
+  key: string;
+  // Plain text, or a JSON string for structured entries such as heartbeat reports
+  content: string;
+}
+
+export interface WakePayload {
+  agentId: string;
+  agentName: string;
+}
+
+export interface ReportPayload {
+  agentId: string;
+  summary: string;
+  findings: string[];
+  blockers: BlockerInput[];
+  tasksCompleted: string[];
+  tasksStarted: string[];
+  // Checklist item IDs; completes the parent task once all items are done
+  checklistCompleted: string[];
+  cronStartedAt: string | null;
+}
+
+export interface MemoryPayload {
+  agentId: string;
+  content: string;
+  memoryType: string;
+  key: string | null;
+}
+
+type Parsed<T> = { payload: T | null; error: string | null };
+
+function invalid<T>(error: string): Parsed<T> {
+  return { payload: null, error };
+}
+
+function stringList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return null;
+  return value as string[];
+}
+
+// Request bodies are whatever JSON the agent sent; anything but an object is empty
+function fields(body: unknown): Record<string, unknown> {
+  return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : {};
+}
+
+function optionalString(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function parseWakePayload(input: unknown): Parsed<WakePayload> {
+  const { agentId, agentName } = fields(input);
+  if (typeof agentId !== 'string' || !agentId || typeof agentName !== 'string' || !agentName.trim()) {
+    return invalid('agentId and agentName required');
+  }
+  return { payload: { agentId, agentName: agentName.trim() }, error: null };
+}
+
+export function parseReportPayload(input: unknown): Parsed<ReportPayload> {
+  const body = fields(input);
+  const { agentId, summary, cronStartedAt } = body;
+  if (typeof agentId !== 'string' || !agentId) {
+    return invalid('agentId required');
+  }
+  if (summary !== undefined && summary !== null && typeof summary !== 'string') {
+    return invalid('summary must be a string');
+  }
+
+  const lists: Record<string, string[] | null> = {
+    findings: stringList(body.findings),
+    tasksCompleted: stringList(body.tasksCompleted),
+    tasksStarted: stringList(body.tasksStarted),
+    checklistCompleted: stringList(body.checklistCompleted),
+  };
+  for (const [field, list] of Object.entries(lists)) {
+    if (list === null) return invalid(`${field} must be an array of strings`);
+  }
+
+  const { blockers, error: blockersError } = parseBlockers(body.blockers);
+  if (blockersError) return invalid(blockersError);
+
+  const startedAt = optionalString(cronStartedAt);
+  if (startedAt === undefined || (startedAt && Number.isNaN(Date.parse(startedAt)))) {
+    return invalid('cronStartedAt must be an ISO timestamp');
+  }
+
+  return {
+    payload: {
+      agentId,
+      summary: (summary as string) || '',
+      findings: lists.findings as string[],
+      blockers,
+      tasksCompleted: lists.tasksCompleted as string[],
+      tasksStarted: lists.tasksStarted as string[],
+      checklistCompleted: lists.checklistCompleted as string[],
+      cronStartedAt: startedAt,
+    },
+    error: null,
+  };
+}
+
+export function parseMemoryPayload(input: unknown): Parsed<MemoryPayload> {
+  const { agentId, content, memoryType, key } = fields(input);
+  if (typeof agentId !== 'string' || !agentId) {
+    return invalid('agentId required');
+  }
+  if (typeof content !== 'string' || !content.trim()) {
+    return invalid('content must be a non-empty string');
+  }
+  if (memoryType !== undefined && (typeof memoryType !== 'string' || !/^[a-z0-9_]+$/.test(memoryType))) {
+    return invalid('memoryType must be lowercase letters, digits and underscores');
+  }
+  if (memoryType === 'heartbeat_report') {
+    return invalid('heartbeat reports are saved through POST /api/agents/report');
+  }
+  const memoryKey = optionalString(key);
+  if (memoryKey === undefined) {
+    return invalid('key must be a string');
+  }
+  return {
+    payload: { agentId, content, memoryType: (memoryType as string) || 'note', key: memoryKey },
+    error: null,
+  };
+}
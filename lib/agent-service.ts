@@ -0,0 +1,357 @@
+import { supabaseServer } from './supabase-server';
+import { Agent, Task } from './supabase-client';
+import { getOpenBlockers } from './task-dependencies';
+import { setChecklistItemsDone } from './task-checklist';
+import { CLEARED_LEASE, isLeasedByOther } from './task-leases';
+import { BlockerSyncResult, syncAgentBlockers } from './agent-blockers';
+import {
+  AgentMemoryInsert,
+  MemoryPayload,
+  ReportPayload,
+  TaskHistoryInsert,
+  WakePayload
+} from './agent-schemas';
+
+// The one place agent writes happen: POST /api/agents/wake and /report, and
+// the in-process helpers in lib/agent-protocol.ts, all go through here so
+// they write the same columns. Callers revalidate the cache themselves
+// (next/cache is not available to scripts).
+
+// Agent ID to cron job name mapping (must match cron_jobs.name in Supabase)
+const AGENT_CRON_MAP: Record<string, string> = {
+  '60569bb5-8542-459f-ba78-d302d506634e': 'Pulse Heartbeat',
+  'a652a950-e1e4-4207-8376-f111985976a0': 'Backend Architect Heartbeat',
+  'a989b59b-8413-4990-b343-9b6cfb42516e': 'Frontend/Product Heartbeat',  // Matches DB
+  '9d5f29c9-d771-431e-9442-93cd5d37da80': 'Growth Agent Daily Audit',     // Matches DB
+  'acb23908-a751-43a7-bf89-1c5452ec5464': 'System Admin Heartbeat',
+  'c7e8f9a0-1234-4567-89ab-cdef12345678': 'Content Strategist Heartbeat'
+};
+
+export interface WakeResult {
+  agentId: string;
+  status: 'working';
+  lastHeartbeat: string;
+  tasks: Task[];
+  blockedTaskIds: string[];
+  memory: Record<string, unknown>[];
+}
+
+export interface ReportResult {
+  agentId: string;
+  status: 'idle';
+  timestamp: string;
+  tasksCompleted: string[];
+  tasksStarted: string[];
+  // Tasks leased by another agent, left untouched
+  leaseConflicts: string[];
+  // Started tasks that are blocked or wait on unfinished tasks, left untouched
+  rejected: string[];
+  checklistCompleted: number;
+  checklistTasksCompleted: string[];
+  blockers: BlockerSyncResult | null;
+  cronRunLogged: boolean;
+}
+
+// Activity entries must never fail the write they describe, so errors are
+// reported and swallowed
+export async function logAgentEvent(entry: TaskHistoryInsert) {
+  const { error } = await supabaseServer.from('task_history').insert(entry);
+  if (error) {
+    console.error(`Error recording ${entry.action} event:`, error);
+  }
+}
+
+export async function saveAgentMemory(payload: MemoryPayload) {
+  const row: AgentMemoryInsert = {
+    agent_id: payload.agentId,
+    memory_type: payload.memoryType,
+    key: payload.key || `${payload.memoryType}_${Date.now()}`,
+    content: payload.content
+  };
+
+  const { data, error } = await supabaseServer
+    .from('agent_memory')
+    .insert(row)
+    .select('id, agent_id, memory_type, key, content, created_at')
+    .single();
+
+  if (error) throw new Error(`Failed to save memory: ${error.message}`);
+  return data;
+}
+
+async function setAgentStatus(agentId: string, status: Agent['status'], now: string) {
+  const { error } = await supabaseServer
+    .from('agents')
+    .update({ status, last_heartbeat: now, updated_at: now })
+    .eq('id', agentId);
+
+  if (error) throw new Error(`Failed to update agent: ${error.message}`);
+}
+
+/**
+ * Marks the agent working and returns its assigned open tasks in board order
+ * (blocked tasks and tasks with open prerequisites are held back in
+ * blockedTaskIds) with its 10 latest memory entries.
+ */
+export async function wakeAgent({ agentId, agentName }: WakePayload): Promise<WakeResult> {
+  const now = new Date().toISOString();
+
+  const { error: agentError } = await supabaseServer
+    .from('agents')
+    .upsert({
+      id: agentId,
+      name: agentName,
+      status: 'working',
+      last_heartbeat: now,
+      updated_at: now
+    }, { onConflict: 'id' });
+
+  if (agentError) throw new Error(`Failed to update agent: ${agentError.message}`);
+
+  // Top of the column = pick first
+  const [tasksResult, memoryResult] = await Promise.all([
+    supabaseServer
+      .from('tasks')
+      .select('*')
+      .eq('assigned_agent_id', agentId)
+      .neq('status', 'done')
+      .order('position', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true }),
+    supabaseServer
+      .from('agent_memory')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .limit(10),
+  ]);
+
+  if (tasksResult.error) throw new Error(`Failed to load tasks: ${tasksResult.error.message}`);
+  if (memoryResult.error) console.error('Failed to load memory:', memoryResult.error);
+
+  const tasks = (tasksResult.data || []) as Task[];
+  let blockedTaskIds = tasks.filter(t => t.status === 'blocked').map(t => t.id);
+  try {
+    const openBlockers = await getOpenBlockers(tasks.map(t => t.id));
+    blockedTaskIds = Array.from(new Set([...blockedTaskIds, ...Array.from(openBlockers.keys())]));
+  } catch (dependencyError) {
+    console.error('Failed to load task dependencies:', dependencyError);
+  }
+
+  await logAgentEvent({
+    task_id: null, // System event, not task-specific
+    agent_id: agentId,
+    action: 'agent_wake',
+    note: `Agent ${agentName} woke up at ${now}`
+  });
+
+  return {
+    agentId,
+    status: 'working',
+    lastHeartbeat: now,
+    tasks: tasks.filter(t => !blockedTaskIds.includes(t.id)),
+    blockedTaskIds,
+    memory: memoryResult.data || []
+  };
+}
+
+// Blocked tasks and tasks whose prerequisites are not done may not start
+async function getUnstartableTaskIds(taskIds: string[]): Promise<string[]> {
+  if (taskIds.length === 0) return [];
+
+  const [{ data: blocked, error }, openBlockers] = await Promise.all([
+    supabaseServer.from('tasks').select('id').in('id', taskIds).eq('status', 'blocked'),
+    getOpenBlockers(taskIds)
+  ]);
+
+  if (error) throw new Error(`Failed to load task status: ${error.message}`);
+  return Array.from(new Set([...(blocked || []).map(t => t.id), ...Array.from(openBlockers.keys())]));
+}
+
+// Conditional, so repeating it (e.g. a retried report) logs nothing twice
+async function markTaskStarted(agentId: string, taskId: string, now: string) {
+  const { data, error } = await supabaseServer
+    .from('tasks')
+    .update({ status: 'in_progress', updated_at: now })
+    .eq('id', taskId)
+    .neq('status', 'in_progress')
+    .neq('status', 'blocked')
+    .select('id');
+
+  if (error) throw new Error(`Failed to start task ${taskId}: ${error.message}`);
+  if (!data || data.length === 0) return;
+
+  await logAgentEvent({ task_id: taskId, agent_id: agentId, action: 'started', note: `Task started at ${now}` });
+}
+
+// Throws for blocked tasks and tasks with open prerequisites, like PATCH /api/tasks
+export async function startTask(agentId: string, taskId: string, now = new Date().toISOString()) {
+  if ((await getUnstartableTaskIds([taskId])).length > 0) {
+    throw new Error(`Task ${taskId} is blocked or waits on tasks that are not done yet`);
+  }
+
+  await markTaskStarted(agentId, taskId, now);
+}
+
+// Completing a task also ends the agent's lease on it; a no-op for tasks
+// already done, so a retried report logs nothing twice
+export async function completeTask(agentId: string, taskId: string, now = new Date().toISOString(), note?: string | null) {
+  const { data, error } = await supabaseServer
+    .from('tasks')
+    .update({ status: 'done', completed_at: now, ...CLEARED_LEASE, updated_at: now })
+    .eq('id', taskId)
+    .neq('status', 'done')
+    .select('id');
+
+  if (error) throw new Error(`Failed to complete task ${taskId}: ${error.message}`);
+  if (!data || data.length === 0) return;
+
+  await logAgentEvent({ task_id: taskId, agent_id: agentId, action: 'completed', note: note || `Task completed at ${now}` });
+}
+
+export async function blockTask(agentId: string, taskId: string, reason: string, now = new Date().toISOString()) {
+  const { error } = await supabaseServer
+    .from('tasks')
+    .update({ status: 'blocked', blocked_reason: reason, blocked_at: now, ...CLEARED_LEASE, updated_at: now })
+    .eq('id', taskId);
+
+  if (error) throw new Error(`Failed to block task ${taskId}: ${error.message}`);
+
+  await logAgentEvent({ task_id: taskId, agent_id: agentId, action: 'blocked', note: reason });
+}
+
+// Cron run for agents started by a cron job. Logging must not fail the report.
+async function logCronRun(agentId: string, summary: string, cronStartedAt: string | null, now: string): Promise<boolean> {
+  const cronJobName = AGENT_CRON_MAP[agentId];
+  if (!cronJobName) return false;
+
+  try {
+    const { data: cronJob } = await supabaseServer
+      .from('cron_jobs')
+      .select('id')
+      .eq('name', cronJobName)
+      .single();
+
+    if (!cronJob) return false;
+
+    const durationMs = cronStartedAt ? Date.now() - new Date(cronStartedAt).getTime() : null;
+    const lowered = summary.toLowerCase();
+    const runStatus = lowered.includes('error') ? 'error' : lowered.includes('timeout') ? 'timeout' : 'ok';
+
+    const { error: runError } = await supabaseServer
+      .from('cron_runs')
+      .insert({
+        job_id: cronJob.id,
+        started_at: cronStartedAt || now,
+        completed_at: now,
+        status: runStatus,
+        duration_ms: durationMs,
+        result_summary: summary.substring(0, 500) // Truncate for storage
+      });
+
+    if (runError) {
+      console.error('Failed to log cron run:', runError);
+      return false;
+    }
+
+    await supabaseServer
+      .from('cron_jobs')
+      .update({ last_run_at: now, last_status: runStatus, last_duration_ms: durationMs, updated_at: now })
+      .eq('id', cronJob.id);
+
+    return true;
+  } catch (cronError) {
+    console.error('Cron run logging error:', cronError);
+    return false;
+  }
+}
+
+/**
+ * Applies an agent's end-of-session report: the agent goes idle, reported
+ * tasks move (unless another agent holds their lease, or a started task is
+ * blocked), checklist items are ticked, the report is saved to agent_memory,
+ * blockers are synced and the cron run is logged.
+ *
+ * Ordered so a failure leaves nothing a retry would duplicate: reads first,
+ * then the repeatable writes, then the memory insert; everything after that
+ * logs its errors instead of throwing.
+ */
+export async function reportAgent(payload: ReportPayload): Promise<ReportResult> {
+  const { agentId, summary, findings, blockers, tasksCompleted, tasksStarted, checklistCompleted, cronStartedAt } = payload;
+  const now = new Date().toISOString();
+
+  // Tasks another agent holds a live lease on are not this agent's to move
+  const reportedIds = Array.from(new Set([...tasksCompleted, ...tasksStarted]));
+  let leaseConflicts: string[] = [];
+  if (reportedIds.length > 0) {
+    const { data: leases, error: leasesError } = await supabaseServer
+      .from('tasks')
+      .select('id, lease_agent_id, lease_expires_at')
+      .in('id', reportedIds);
+
+    if (leasesError) throw new Error(`Failed to load task leases: ${leasesError.message}`);
+    leaseConflicts = (leases || []).filter(task => isLeasedByOther(task, agentId)).map(task => task.id);
+  }
+  const completedIds = tasksCompleted.filter(id => !leaseConflicts.includes(id));
+  const unstartable = await getUnstartableTaskIds(tasksStarted.filter(id => !leaseConflicts.includes(id)));
+  const startedIds = tasksStarted.filter(id => !leaseConflicts.includes(id) && !unstartable.includes(id));
+  const rejected = tasksStarted.filter(id => unstartable.includes(id));
+
+  await setAgentStatus(agentId, 'idle', now);
+
+  for (const taskId of completedIds) {
+    await completeTask(agentId, taskId, now);
+  }
+  for (const taskId of startedIds) {
+    await markTaskStarted(agentId, taskId, now);
+  }
+
+  // May auto-complete the parent tasks
+  let checklistTasksCompleted: string[] = [];
+  if (checklistCompleted.length > 0) {
+    try {
+      checklistTasksCompleted = await setChecklistItemsDone(checklistCompleted, true, agentId);
+    } catch (checklistError) {
+      console.error('Failed to update checklist:', checklistError);
+    }
+  }
+
+  await saveAgentMemory({
+    agentId,
+    memoryType: 'heartbeat_report',
+    key: `heartbeat_${Date.now()}`,
+    content: JSON.stringify({
+      summary,
+      findings,
+      blockers: blockers.map(b => b.description),
+      tasksCompleted,
+      tasksStarted,
+      timestamp: now
+    })
+  });
+
+  // Blockers are tracked as open items (deduplicated, auto-resolved when dropped)
+  let blockerSync: BlockerSyncResult | null = null;
+  try {
+    blockerSync = await syncAgentBlockers(agentId, blockers, now);
+  } catch (blockerError) {
+    console.error('Failed to sync blockers:', blockerError);
+  }
+
+  await logAgentEvent({ task_id: null, agent_id: agentId, action: 'agent_report', note: summary });
+
+  const cronRunLogged = await logCronRun(agentId, summary, cronStartedAt, now);
+
+  return {
+    agentId,
+    status: 'idle',
+    timestamp: now,
+    tasksCompleted: completedIds,
+    tasksStarted: startedIds,
+    leaseConflicts,
+    rejected,
+    checklistCompleted: checklistCompleted.length,
+    checklistTasksCompleted,
+    blockers: blockerSync,
+    cronRunLogged
+  };
+}
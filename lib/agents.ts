@@ -57,8 +57,3 @@ export async function getAgentsData(): Promise<Agent[]> {
 
   return agents;
 }
-
-export async function getAgentBySessionKey(key: string): Promise<Agent | undefined> {
-  const agents = await getAgentsData();
-  return agents.find(agent => agent.sessionKey === key);
-}
@@ -0,0 +1,68 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getUserRole, hasRole, UserRole } from './auth';
+
+export interface SessionUser {
+  id: string;
+  email: string | null;
+  role: UserRole;
+}
+
+// Supabase client acting as the logged-in user (anon key + session cookies).
+// For route handlers; server components can read but not refresh the session.
+export function createSupabaseServerClient() {
+  const cookieStore = cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {
+            // Called from a server component; middleware refreshes the session instead
+          }
+        }
+      }
+    }
+  );
+}
+
+// The logged-in user and their role, or null
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  return { id: user.id, email: user.email ?? null, role: await getUserRole(supabase, user.id) };
+}
+
+// How a dashboard user is named in history (task_history.actor, comment authors...)
+export function actorName(user: SessionUser): string {
+  return user.email || user.id;
+}
+
+export interface UserAuthResult {
+  ok: boolean;
+  user: SessionUser | null;
+  // Set when ok is false
+  status?: 401 | 403;
+  error?: string;
+}
+
+// Route-level check of the session cookie and role (not only the middleware's)
+export async function authorizeUser(required: UserRole): Promise<UserAuthResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { ok: false, user: null, status: 401, error: 'Login required' };
+  }
+  if (!hasRole(user.role, required)) {
+    return { ok: false, user, status: 403, error: `Requires the ${required} role (you are ${user.role})` };
+  }
+  return { ok: true, user };
+}
@@ -0,0 +1,128 @@
+import { createBrowserClient } from '@supabase/ssr';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Dashboard login (Supabase Auth, magic link) and roles (migration 017).
+// Shared by middleware.ts, the login page and the navbar, so nothing here may
+// depend on server-only modules.
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+// Ordered: each role can do everything the previous one can
+export const USER_ROLES: UserRole[] = ['viewer', 'operator', 'admin'];
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+// Users without a user_roles row can look but not touch
+export async function getUserRole(client: SupabaseClient, userId: string): Promise<UserRole> {
+  const { data, error } = await client
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching user role:', error);
+  }
+
+  return USER_ROLES.includes(data?.role) ? data.role : 'viewer';
+}
+
+// Pages anyone can open
+const PUBLIC_PAGES = ['/', '/landing', '/blog', '/login', '/auth'];
+
+const ADMIN_PAGES = ['/agents/manage'];
+
+// Routes that verify the agent's API token themselves (authenticateAgent or
+// authorizeTaskWrite in lib/agent-auth.ts). Exact paths, not prefixes: a route
+// added under one of these without a token check must not skip the login.
+const AGENT_TOKEN_ROUTES = [
+  '/api/agents/wake',
+  '/api/agents/report',
+  '/api/agents/heartbeat',
+  '/api/agents/claim',
+  '/api/agents/memory',
+  '/api/cron/jobs',
+  '/api/cron/runs',
+  '/api/cron/sync',
+  '/api/tasks',
+  '/api/tasks/assign',
+  '/api/tasks/bulk',
+  '/api/tasks/checklist',
+  '/api/tasks/comments',
+  '/api/tasks/dependencies',
+  '/api/tasks/unblock'
+];
+
+// Reads agents make with their token; the route verifies it (authorizeTaskRead)
+const AGENT_TOKEN_READS = ['/api/tasks'];
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return prefix === '/'
+    ? pathname === '/'
+    : pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Minimum role a request needs, or null when it is open. Requests that carry
+ * an agent token to a route listed above are left to the route, which
+ * verifies the token itself.
+ */
+export function requiredRole(pathname: string, method: string, hasAgentToken: boolean): UserRole | null {
+  if (pathname.startsWith('/api/')) {
+    if (matchesPrefix(pathname, '/api/admin') || matchesPrefix(pathname, '/api/agents/tokens')) {
+      return 'admin';
+    }
+    // Registering, editing and retiring agents (not the agent routes below it)
+    if (pathname === '/api/agents' && method !== 'GET' && method !== 'HEAD') {
+      return 'admin';
+    }
+    if (matchesPrefix(pathname, '/api/export')) {
+      return 'viewer';
+    }
+    // HMAC-signed instead of a session (lib/revalidation.ts)
+    if (matchesPrefix(pathname, '/api/revalidate')) {
+      return null;
+    }
+    const route = pathname.replace(/\/+$/, '');
+    if (method === 'GET' || method === 'HEAD') {
+      return hasAgentToken && AGENT_TOKEN_READS.includes(route) ? null : 'viewer';
+    }
+    if (hasAgentToken && AGENT_TOKEN_ROUTES.includes(route)) {
+      return null;
+    }
+    return 'operator';
+  }
+
+  if (ADMIN_PAGES.some(prefix => matchesPrefix(pathname, prefix))) {
+    return 'admin';
+  }
+  return PUBLIC_PAGES.some(prefix => matchesPrefix(pathname, prefix)) ? null : 'viewer';
+}
+
+const DEFAULT_NEXT_PATH = '/mission-control';
+
+// Only same-site paths, so ?next= cannot send users to another host. Browsers
+// read '\' as '/' and drop tabs and newlines, so '/\evil.com' is as external
+// as '//evil.com'; whatever is left must resolve against our own origin.
+export function safeNextPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || /[\\\s]/.test(next)) {
+    return DEFAULT_NEXT_PATH;
+  }
+  try {
+    const origin = 'http://localhost';
+    const url = new URL(next, origin);
+    return url.origin === origin ? url.pathname + url.search + url.hash : DEFAULT_NEXT_PATH;
+  } catch {
+    return DEFAULT_NEXT_PATH;
+  }
+}
+
+// Browser client that keeps the session in cookies, where middleware can read it
+export function createSupabaseBrowserClient() {
+  return createBrowserClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+}
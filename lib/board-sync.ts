@@ -0,0 +1,345 @@
+import { supabaseServer } from './supabase-server';
+import { TaskStatus } from './supabase-client';
+import { parseBoardMarkdown, BoardData } from './tasks';
+import { compareByPosition, POSITION_STEP } from './task-position';
+import { getOpenBlockers } from './task-dependencies';
+import { diffTask, recordTaskChanges, FieldChanges } from './task-history';
+import { CLEARED_LEASE } from './task-leases';
+
+// Round-trips the task board between Supabase and the board/TASKS.md checklist
+// format that older agents still read. Tasks are matched by title (unique,
+// see scripts/seed-tasks.ts). The exported file carries a synced-at marker so
+// an import can tell which Supabase edits happened after the file was written.
+
+type BoardSection = keyof BoardData;
+
+const SECTION_HEADINGS: Record<BoardSection, string> = {
+  backlog: 'Backlog',
+  inProgress: 'In Progress',
+  done: 'Done',
+};
+
+// The markdown only has three columns; statuses are folded into them
+const SECTION_FOR_STATUS: Record<TaskStatus, BoardSection> = {
+  backlog: 'backlog',
+  todo: 'backlog',
+  in_progress: 'inProgress',
+  blocked: 'inProgress',
+  done: 'done',
+};
+
+const STATUS_FOR_SECTION: Record<BoardSection, TaskStatus> = {
+  backlog: 'backlog',
+  inProgress: 'in_progress',
+  done: 'done',
+};
+
+const SYNCED_AT_PATTERN = /<!--\s*synced-at:\s*(\S+)\s*-->/;
+
+// Type aliases (not interfaces) so rows can be passed to diffTask
+export type BoardTaskRow = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  assigned_agent_id: string | null;
+  position: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BoardAgentRow = {
+  id: string;
+  name: string;
+};
+
+async function loadBoard(): Promise<{ tasks: BoardTaskRow[]; agents: BoardAgentRow[] }> {
+  const [{ data: tasks, error: tasksError }, { data: agents, error: agentsError }] = await Promise.all([
+    supabaseServer
+      .from('tasks')
+      .select('id, title, status, assigned_agent_id, position, created_at, updated_at'),
+    supabaseServer
+      .from('agents')
+      .select('id, name')
+  ]);
+
+  if (tasksError) throw new Error(`Failed to load tasks: ${tasksError.message}`);
+  if (agentsError) throw new Error(`Failed to load agents: ${agentsError.message}`);
+
+  return { tasks: (tasks || []) as BoardTaskRow[], agents: (agents || []) as BoardAgentRow[] };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function renderBoardMarkdown(tasks: BoardTaskRow[], agents: BoardAgentRow[], syncedAt: Date): string {
+  const agentNames = new Map(agents.map(a => [a.id, a.name]));
+  const lines = [
+    '# Tasks',
+    '',
+    `<!-- synced-at: ${syncedAt.toISOString()} -->`,
+    '<!-- Generated from Supabase. Edit and import with: npx tsx scripts/sync-board.ts import -->',
+  ];
+
+  for (const section of Object.keys(SECTION_HEADINGS) as BoardSection[]) {
+    lines.push('', `## ${SECTION_HEADINGS[section]}`);
+    const inSection = tasks
+      .filter(t => SECTION_FOR_STATUS[t.status] === section)
+      .sort(compareByPosition);
+
+    for (const task of inSection) {
+      const owner = task.assigned_agent_id ? agentNames.get(task.assigned_agent_id) : undefined;
+      let title = task.title.replace(/\s+/g, ' ').trim();
+      // Without an owner, "Fix login (urgent)" would read back as owned by "urgent"
+      if (!owner && title.endsWith(')')) {
+        title = title.replace(/[()]/g, '\\$&');
+      }
+      lines.push(`- [${section === 'done' ? 'x' : ' '}] ${title}${owner ? ` (${owner})` : ''}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export async function exportBoard(now: Date = new Date()): Promise<string> {
+  const { tasks, agents } = await loadBoard();
+  return renderBoardMarkdown(tasks, agents, now);
+}
+
+/**
+ * Exports the board and plans importing it straight back, which must be a
+ * no-op. Returns what would change instead (titles or owner names the
+ * format can't carry), empty when the round trip is clean.
+ */
+export function checkBoardRoundTrip(tasks: BoardTaskRow[], agents: BoardAgentRow[]): string[] {
+  const markdown = renderBoardMarkdown(tasks, agents, new Date());
+  const plan = planBoardImport(markdown, tasks, agents);
+
+  return [
+    ...plan.create.map(t => `Would create "${t.title}"`),
+    ...plan.update.map(c => `Would change "${c.title}": ${Object.keys(c.changes).join(', ')}`),
+    ...plan.conflicts.map(c => `Conflict on "${c.title}": ${c.reason}`),
+    ...plan.missing.map(title => `Lost "${title}"`),
+    ...plan.warnings,
+  ];
+}
+
+export async function checkBoard(): Promise<string[]> {
+  const { tasks, agents } = await loadBoard();
+  return checkBoardRoundTrip(tasks, agents);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+export interface BoardImportChange {
+  taskId: string;
+  title: string;
+  updates: Record<string, unknown>;
+  changes: FieldChanges;
+}
+
+export interface BoardImportConflict {
+  title: string;
+  reason: string;
+}
+
+export interface BoardImportPlan {
+  syncedAt: string | null;
+  create: { title: string; status: TaskStatus; assigned_agent_id: string | null }[];
+  update: BoardImportChange[];
+  conflicts: BoardImportConflict[];
+  // In Supabase but not in the file. Never deleted by an import.
+  missing: string[];
+  warnings: string[];
+}
+
+// Works out what an import would do. With force, edits made in Supabase after
+// the export no longer count as conflicts and the file wins.
+export function planBoardImport(
+  markdown: string,
+  tasks: BoardTaskRow[],
+  agents: BoardAgentRow[],
+  force = false
+): BoardImportPlan {
+  const syncedAtMatch = markdown.match(SYNCED_AT_PATTERN);
+  const syncedAt = syncedAtMatch && !Number.isNaN(Date.parse(syncedAtMatch[1])) ? syncedAtMatch[1] : null;
+
+  const board = parseBoardMarkdown(markdown);
+  const byTitle = new Map(tasks.map(t => [t.title.trim().toLowerCase(), t]));
+  const agentIds = new Map(agents.map(a => [a.name.trim().toLowerCase(), a.id]));
+
+  const plan: BoardImportPlan = { syncedAt, create: [], update: [], conflicts: [], missing: [], warnings: [] };
+  if (!syncedAt && !force) {
+    plan.warnings.push('No synced-at marker found: every change to an existing task is treated as a conflict');
+  }
+
+  const seen = new Set<string>();
+  for (const section of Object.keys(SECTION_HEADINGS) as BoardSection[]) {
+    for (const entry of board[section]) {
+      const key = entry.title.trim().toLowerCase();
+      if (seen.has(key)) {
+        plan.conflicts.push({ title: entry.title, reason: 'Listed more than once in the file' });
+        continue;
+      }
+      seen.add(key);
+
+      let assignedAgentId: string | null = null;
+      if (entry.owner) {
+        const id = agentIds.get(entry.owner.trim().toLowerCase());
+        if (id) {
+          assignedAgentId = id;
+        } else {
+          plan.warnings.push(`Unknown owner "${entry.owner}" on "${entry.title}" - owner left unchanged`);
+        }
+      }
+
+      const existing = byTitle.get(key);
+      if (!existing) {
+        plan.create.push({ title: entry.title, status: STATUS_FOR_SECTION[section], assigned_agent_id: assignedAgentId });
+        continue;
+      }
+
+      const updates: Record<string, unknown> = {};
+      if (SECTION_FOR_STATUS[existing.status] !== section) {
+        updates.status = STATUS_FOR_SECTION[section];
+      }
+      const ownerKnown = !entry.owner || assignedAgentId;
+      if (ownerKnown && existing.assigned_agent_id !== assignedAgentId) {
+        updates.assigned_agent_id = assignedAgentId;
+      }
+      if (Object.keys(updates).length === 0) continue;
+
+      if (!force && (!syncedAt || Date.parse(existing.updated_at) > Date.parse(syncedAt))) {
+        plan.conflicts.push({
+          title: existing.title,
+          reason: syncedAt
+            ? `Changed in Supabase at ${existing.updated_at}, after the file was exported`
+            : 'Differs from Supabase and the file has no synced-at marker',
+        });
+        continue;
+      }
+      if (updates.status && existing.status === 'blocked') {
+        plan.conflicts.push({ title: existing.title, reason: 'Task is blocked. Unblock it via POST /api/tasks/unblock' });
+        continue;
+      }
+
+      plan.update.push({ taskId: existing.id, title: existing.title, updates, changes: diffTask(existing, updates) });
+    }
+  }
+
+  plan.missing = tasks
+    .filter(t => !seen.has(t.title.trim().toLowerCase()))
+    .map(t => t.title);
+
+  return plan;
+}
+
+export interface BoardImportOptions {
+  // Apply changes even when they conflict with newer Supabase edits
+  force?: boolean;
+  dryRun?: boolean;
+  actor?: string | null;
+}
+
+export interface BoardImportResult extends BoardImportPlan {
+  applied: boolean;
+}
+
+/**
+ * Imports a TASKS.md file into Supabase. Conflicts are checked first: if any
+ * remains (and force is not set) nothing is written. The writes themselves are
+ * one statement per task, not a transaction, so a database error midway keeps
+ * the tasks already updated and the error names the task that failed.
+ * Tasks missing from the file are reported but never deleted.
+ */
+export async function importBoard(markdown: string, options: BoardImportOptions = {}): Promise<BoardImportResult> {
+  const { tasks, agents } = await loadBoard();
+  const plan = planBoardImport(markdown, tasks, agents, options.force);
+
+  // Starting work on a task still waits for its dependencies
+  const starting = plan.update.filter(c => c.updates.status === 'in_progress');
+  if (starting.length > 0) {
+    const openBlockers = await getOpenBlockers(starting.map(c => c.taskId));
+    for (const change of starting) {
+      if (openBlockers.has(change.taskId)) {
+        plan.conflicts.push({ title: change.title, reason: 'Task is blocked by tasks that are not done yet' });
+      }
+    }
+    plan.update = plan.update.filter(c => !openBlockers.has(c.taskId));
+  }
+
+  if (options.dryRun || plan.conflicts.length > 0) {
+    return { ...plan, applied: false };
+  }
+
+  const now = new Date().toISOString();
+  for (const change of plan.update) {
+    const updates: Record<string, unknown> = { ...change.updates, updated_at: now };
+    if (updates.status !== undefined) {
+      updates.completed_at = updates.status === 'done' ? now : null;
+      if (updates.status !== 'in_progress') Object.assign(updates, CLEARED_LEASE);
+    }
+
+    const { error } = await supabaseServer
+      .from('tasks')
+      .update(updates)
+      .eq('id', change.taskId);
+
+    if (error) {
+      throw new Error(`Failed to update "${change.title}": ${error.message}`);
+    }
+  }
+
+  await recordTaskChanges(plan.update.map(change => ({
+    taskId: change.taskId,
+    action: 'updated',
+    changes: change.changes,
+    actor: options.actor || 'board-sync',
+  })));
+
+  if (plan.create.length > 0) {
+    // New tasks go to the bottom of their column, like POST /api/tasks
+    const maxPosition = new Map<TaskStatus, number>();
+    for (const task of tasks) {
+      if (task.position !== null && task.position > (maxPosition.get(task.status) ?? 0)) {
+        maxPosition.set(task.status, task.position);
+      }
+    }
+
+    const rows = plan.create.map(task => {
+      const position = (maxPosition.get(task.status) ?? 0) + POSITION_STEP;
+      maxPosition.set(task.status, position);
+      return {
+        title: task.title,
+        status: task.status,
+        priority: 'medium',
+        assigned_agent_id: task.assigned_agent_id,
+        position,
+        completed_at: task.status === 'done' ? now : null,
+      };
+    });
+
+    const { data: created, error } = await supabaseServer
+      .from('tasks')
+      .insert(rows)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to create tasks: ${error.message}`);
+    }
+
+    await supabaseServer
+      .from('task_history')
+      .insert((created || []).map(task => ({
+        task_id: task.id,
+        agent_id: null,
+        actor: options.actor || 'board-sync',
+        action: 'created',
+        note: 'Imported from TASKS.md'
+      })));
+  }
+
+  return { ...plan, applied: true };
+}
@@ -0,0 +1,28 @@
+import { unstable_cache } from 'next/cache';
+import { getAgents, getTasks } from './supabase-client';
+import { createSupabaseServerClient } from './auth-server';
+import { TaskFilters } from './task-filters';
+import { CACHE_TAGS } from './revalidation';
+
+// Server-side getTasks/getAgents, cached until their tag is revalidated
+// (lib/revalidation.ts). The session client is made outside the cached
+// function, where cookies() is allowed; every logged-in user reads the same
+// rows (migration 017), so one cache entry serves them all.
+
+export function getCachedTasks(filters: TaskFilters = {}) {
+  const client = createSupabaseServerClient();
+  return unstable_cache(
+    async (cachedFilters: TaskFilters) => getTasks(client, cachedFilters),
+    ['tasks'],
+    { tags: [CACHE_TAGS.tasks], revalidate: 60 }
+  )(filters);
+}
+
+export function getCachedAgents() {
+  const client = createSupabaseServerClient();
+  return unstable_cache(
+    async () => getAgents(client),
+    ['agents'],
+    { tags: [CACHE_TAGS.agents], revalidate: 60 }
+  )();
+}
@@ -0,0 +1,206 @@
+import { supabaseServer } from './supabase-server';
+import { afterCursorFilter, Cursor } from './pagination';
+
+// Streams whole tables out as CSV or NDJSON for the ops spreadsheets. Rows are
+// read in keyset pages ordered by (date column, id) so large exports never sit
+// in memory and stay stable while new rows are inserted.
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+// Rows come from select strings with joins, so fields are read defensively
+type Row = Record<string, unknown>;
+
+interface ExportColumn {
+  header: string;
+  value: (row: Row) => unknown;
+}
+
+interface ExportDataset {
+  table: string;
+  select: string;
+  // Timestamp the date range applies to, also the sort key
+  dateColumn: string;
+  // Extra fixed filters, e.g. only heartbeat reports out of agent_memory
+  filters?: Record<string, string>;
+  columns: ExportColumn[];
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+function column(header: string, value: (row: Row) => unknown = row => row[header]): ExportColumn {
+  return { header, value };
+}
+
+function objectField(value: unknown, field: string): unknown {
+  return value && typeof value === 'object' ? (value as Row)[field] ?? null : null;
+}
+
+// Field of an embedded relation, e.g. joined(row, 'agent', 'name') for agent:agents(name)
+function joined(row: Row, relation: string, field: string): unknown {
+  return objectField(row[relation], field);
+}
+
+// Heartbeat reports store their payload as a JSON string in content
+function reportField(row: Row, field: string): unknown {
+  try {
+    const content: unknown = typeof row.content === 'string' ? JSON.parse(row.content) : row.content;
+    return objectField(content, field);
+  } catch {
+    return null;
+  }
+}
+
+export const EXPORT_DATASETS = {
+  tasks: {
+    table: 'tasks',
+    select: 'id, title, status, priority, tags, due_date, blocked_reason, created_at, updated_at, completed_at, agent:agents(name)',
+    dateColumn: 'created_at',
+    columns: [
+      column('id'),
+      column('title'),
+      column('status'),
+      column('priority'),
+      column('assignee', row => joined(row, 'agent', 'name')),
+      column('tags'),
+      column('due_date'),
+      column('blocked_reason'),
+      column('created_at'),
+      column('updated_at'),
+      column('completed_at'),
+    ],
+  },
+  task_history: {
+    table: 'task_history',
+    select: 'id, task_id, action, note, changes, actor, created_at, agent:agents(name), task:tasks(title)',
+    dateColumn: 'created_at',
+    columns: [
+      column('id'),
+      column('created_at'),
+      column('task_id'),
+      column('task_title', row => joined(row, 'task', 'title')),
+      column('action'),
+      column('agent', row => joined(row, 'agent', 'name')),
+      column('actor'),
+      column('note'),
+      column('changes'),
+    ],
+  },
+  cron_runs: {
+    table: 'cron_runs',
+    select: 'id, job_id, started_at, completed_at, status, duration_ms, error_message, result_summary, cron_job:cron_jobs(name)',
+    dateColumn: 'started_at',
+    columns: [
+      column('id'),
+      column('job', row => joined(row, 'cron_job', 'name')),
+      column('job_id'),
+      column('started_at'),
+      column('completed_at'),
+      column('status'),
+      column('duration_ms'),
+      column('error_message'),
+      column('result_summary'),
+    ],
+  },
+  reports: {
+    table: 'agent_memory',
+    select: 'id, agent_id, content, created_at, agent:agents(name)',
+    dateColumn: 'created_at',
+    filters: { memory_type: 'heartbeat_report' },
+    columns: [
+      column('id'),
+      column('created_at'),
+      column('agent', row => joined(row, 'agent', 'name')),
+      column('agent_id'),
+      column('summary', row => reportField(row, 'summary')),
+      column('findings', row => reportField(row, 'findings')),
+      column('blockers', row => reportField(row, 'blockers')),
+      column('tasks_completed', row => reportField(row, 'tasksCompleted')),
+      column('tasks_started', row => reportField(row, 'tasksStarted')),
+    ],
+  },
+} satisfies Record<string, ExportDataset>;
+
+export type ExportDatasetName = keyof typeof EXPORT_DATASETS;
+
+export function isExportDataset(name: string): name is ExportDatasetName {
+  return Object.prototype.hasOwnProperty.call(EXPORT_DATASETS, name);
+}
+
+export interface ExportRange {
+  from?: string;
+  // Exclusive upper bound
+  to?: string;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = Array.isArray(value) && value.every(v => typeof v === 'string')
+    ? value.join('; ')
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRows(dataset: ExportDataset, rows: Row[], format: ExportFormat): string {
+  if (format === 'csv') {
+    return rows
+      .map(row => dataset.columns.map(c => csvCell(c.value(row))).join(',') + '\r\n')
+      .join('');
+  }
+  return rows
+    .map(row => JSON.stringify(Object.fromEntries(dataset.columns.map(c => [c.header, c.value(row) ?? null]))) + '\n')
+    .join('');
+}
+
+export function exportStream(name: ExportDatasetName, format: ExportFormat, range: ExportRange): ReadableStream<Uint8Array> {
+  const dataset: ExportDataset = EXPORT_DATASETS[name];
+  const encoder = new TextEncoder();
+  let cursor: Cursor | null = null;
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent) {
+        headerSent = true;
+        if (format === 'csv') {
+          controller.enqueue(encoder.encode(dataset.columns.map(c => c.header).join(',') + '\r\n'));
+          return;
+        }
+      }
+
+      const query = supabaseServer
+        .from(dataset.table)
+        .select(dataset.select)
+        .order(dataset.dateColumn, { ascending: true })
+        .order('id', { ascending: true })
+        .limit(EXPORT_PAGE_SIZE);
+
+      for (const [key, value] of Object.entries(dataset.filters || {})) {
+        query.eq(key, value);
+      }
+      if (range.from) query.gte(dataset.dateColumn, range.from);
+      if (range.to) query.lt(dataset.dateColumn, range.to);
+      if (cursor) query.or(afterCursorFilter(cursor, dataset.dateColumn));
+
+      const { data, error } = await query;
+      if (error) {
+        console.error(`Error exporting ${name}:`, error);
+        controller.error(new Error(error.message));
+        return;
+      }
+
+      const rows = (data || []) as unknown as Row[];
+      if (rows.length > 0) {
+        controller.enqueue(encoder.encode(formatRows(dataset, rows, format)));
+        const last = rows[rows.length - 1];
+        cursor = { createdAt: String(last[dataset.dateColumn]), id: String(last.id) };
+      }
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        controller.close();
+      }
+    },
+  });
+}
@@ -0,0 +1,13 @@
+// Heartbeat freshness rules shared by the audit API and Mission Control.
+// Kept free of server imports so client components can use it.
+
+// An agent that has not sent a heartbeat for this long is considered stale
+export const HEARTBEAT_STALE_MS = 15 * 60 * 1000;
+
+// Heartbeats kept per agent in agent_heartbeats; older ones are pruned on insert
+export const HEARTBEAT_HISTORY_LIMIT = 200;
+
+export function isHeartbeatStale(lastHeartbeat: string | null, now: number = Date.now()): boolean {
+  if (!lastHeartbeat) return true;
+  return now - new Date(lastHeartbeat).getTime() > HEARTBEAT_STALE_MS;
+}
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { supabaseServer } from './supabase-server';
+
+// Idempotency-Key support for agent writes (migration 022). The first request
+// with a key runs and its response is stored; a retry with the same key and
+// body replays that response, so a report whose response was lost to a
+// timeout doesn't complete tasks or log cron runs twice.
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_TTL_HOURS = 24;
+// A claim still running after this long is taken to be from a crashed request
+export const IDEMPOTENCY_LOCK_SECONDS = 120;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+const IN_PROGRESS_ERROR = 'A request with this Idempotency-Key is already in progress';
+
+interface KeyRef {
+  scope: string;
+  key: string;
+  agentId: string | null;
+}
+
+function hashBody(body: unknown): string {
+  return createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+}
+
+function isOlderThan(createdAt: string, ms: number): boolean {
+  return Date.parse(createdAt) < Date.now() - ms;
+}
+
+interface KeyFilterable {
+  eq(column: string, value: unknown): unknown;
+  is(column: string, value: null): unknown;
+}
+
+// Narrows a query to one key, in place. Keys are unique per scope and agent
+// (NULL agent = dashboard user).
+function matchKey(query: KeyFilterable, ref: KeyRef) {
+  query.eq('scope', ref.scope);
+  query.eq('key', ref.key);
+  if (ref.agentId === null) {
+    query.is('agent_id', null);
+  } else {
+    query.eq('agent_id', ref.agentId);
+  }
+}
+
+// Inserts the in-progress row and returns its created_at (which identifies
+// this claim), or null if the key is already taken
+async function claimKey(ref: KeyRef, requestHash: string): Promise<string | null> {
+  const { data, error } = await supabaseServer
+    .from('idempotency_keys')
+    .insert({ scope: ref.scope, key: ref.key, agent_id: ref.agentId, request_hash: requestHash })
+    .select('created_at')
+    .single();
+
+  if (!error) return data.created_at;
+  if (error.code === '23505') return null;
+  throw new Error(`Failed to claim idempotency key: ${error.message}`);
+}
+
+// Only deletes the given claim, so a request whose claim was taken over (or
+// two requests taking over the same stale claim) can't delete another's
+async function releaseKey(ref: KeyRef, createdAt: string) {
+  const query = supabaseServer.from('idempotency_keys').delete().eq('created_at', createdAt);
+  matchKey(query, ref);
+
+  const { error } = await query;
+  if (error) console.error('Error releasing idempotency key:', error);
+}
+
+/**
+ * Runs handler once per Idempotency-Key and agent. Call it after
+ * authenticating, with the parsed body. Without the header the handler just
+ * runs. Server errors (5xx) are not stored, so the client's retry runs the
+ * handler again.
+ *
+ * Replays carry an Idempotency-Replayed: true header. Reusing a key with a
+ * different body is a 422; a retry while the first request is still running
+ * is a 409, until the claim is IDEMPOTENCY_LOCK_SECONDS old and counts as
+ * abandoned.
+ */
+export async function withIdempotency(
+  request: Request,
+  scope: string,
+  agentId: string | null,
+  body: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) return handler();
+
+  if (!KEY_PATTERN.test(key)) {
+    return NextResponse.json({ error: `${IDEMPOTENCY_HEADER} must be 1-255 printable ASCII characters` }, { status: 400 });
+  }
+
+  const ref: KeyRef = { scope, key, agentId };
+  const requestHash = hashBody(body);
+
+  let claimedAt = await claimKey(ref, requestHash);
+  if (!claimedAt) {
+    const lookup = supabaseServer
+      .from('idempotency_keys')
+      .select('request_hash, status_code, response, created_at');
+    matchKey(lookup, ref);
+
+    const { data: existing, error } = await lookup.maybeSingle();
+
+    if (error) throw new Error(`Failed to load idempotency key: ${error.message}`);
+
+    const expired = existing && isOlderThan(existing.created_at, IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000);
+    const abandoned = existing && existing.status_code === null
+      && isOlderThan(existing.created_at, IDEMPOTENCY_LOCK_SECONDS * 1000);
+
+    // Expired, abandoned by a crashed request or released in the meantime:
+    // start over with this request
+    if (!existing || expired || abandoned) {
+      if (existing) await releaseKey(ref, existing.created_at);
+      claimedAt = await claimKey(ref, requestHash);
+      if (!claimedAt) {
+        return NextResponse.json({ error: IN_PROGRESS_ERROR }, { status: 409 });
+      }
+    } else if (existing.request_hash !== requestHash) {
+      return NextResponse.json({ error: `${IDEMPOTENCY_HEADER} was already used for a different request` }, { status: 422 });
+    } else if (existing.status_code === null) {
+      return NextResponse.json({ error: IN_PROGRESS_ERROR }, { status: 409 });
+    } else {
+      return NextResponse.json(existing.response, {
+        status: existing.status_code,
+        headers: { 'Idempotency-Replayed': 'true' }
+      });
+    }
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await releaseKey(ref, claimedAt);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await releaseKey(ref, claimedAt);
+    return response;
+  }
+
+  const stored = await response.clone().json().catch(() => null);
+  const save = supabaseServer
+    .from('idempotency_keys')
+    .update({ status_code: response.status, response: stored })
+    .eq('created_at', claimedAt);
+  matchKey(save, ref);
+
+  const { error: saveError } = await save;
+
+  if (saveError) console.error('Error storing idempotent response:', saveError);
+
+  return response;
+}
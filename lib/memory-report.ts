@@ -0,0 +1,70 @@
+// Parsing and diffing of heartbeat reports stored in agent_memory.content.
+// No server imports: the memory explorer renders diffs on the client.
+
+export interface MemoryReport {
+  summary: string | null;
+  findings: string[];
+  blockers: string[];
+  tasksCompleted: string[];
+  tasksStarted: string[];
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface ReportDiff {
+  summaryChanged: boolean;
+  findings: ListDiff;
+  blockers: ListDiff;
+  tasksCompleted: ListDiff;
+  tasksStarted: ListDiff;
+}
+
+function list(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+// Reports are written by POST /api/agents/report as a JSON string. Returns
+// null for plain-text memories or payloads that don't parse to an object.
+export function parseMemoryReport(content: unknown): MemoryReport | null {
+  let parsed: Record<string, unknown> | null = null;
+  try {
+    parsed = typeof content === 'string' ? JSON.parse(content) : (content as Record<string, unknown>);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : null,
+    findings: list(parsed.findings),
+    blockers: list(parsed.blockers),
+    tasksCompleted: list(parsed.tasksCompleted),
+    tasksStarted: list(parsed.tasksStarted),
+  };
+}
+
+// Items compare after trimming and case-folding so "Fix X" and "fix x " match
+function diffList(previous: string[], next: string[]): ListDiff {
+  const key = (item: string) => item.trim().toLowerCase();
+  const before = new Set(previous.map(key));
+  const after = new Set(next.map(key));
+  return {
+    added: next.filter(item => !before.has(key(item))),
+    removed: previous.filter(item => !after.has(key(item))),
+    unchanged: next.filter(item => before.has(key(item))),
+  };
+}
+
+export function diffReports(previous: MemoryReport, next: MemoryReport): ReportDiff {
+  return {
+    summaryChanged: (previous.summary || '').trim() !== (next.summary || '').trim(),
+    findings: diffList(previous.findings, next.findings),
+    blockers: diffList(previous.blockers, next.blockers),
+    tasksCompleted: diffList(previous.tasksCompleted, next.tasksCompleted),
+    tasksStarted: diffList(previous.tasksStarted, next.tasksStarted),
+  };
+}
@@ -0,0 +1,51 @@
+// Keyset pagination over (created_at, id): stable under inserts, unlike offsets
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+// Opaque cursor handed to clients as nextCursor
+export function encodeCursor(row: { created_at: string; id: string }): string {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // Both values end up inside a PostgREST or() filter, so nothing but a
+    // timestamp and a UUID gets through
+    if (typeof createdAt !== 'string' || typeof id !== 'string' || !TIMESTAMP_PATTERN.test(createdAt) || !UUID_PATTERN.test(id)) {
+      return null;
+    }
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// PostgREST filter for rows strictly after the cursor in (created_at, id) order.
+// Values are quoted because timestamps contain '.' and ':'. Tables ordered by
+// another timestamp (e.g. cron_runs.started_at) pass it as column.
+export function afterCursorFilter(cursor: Cursor, column = 'created_at'): string {
+  return `${column}.gt."${cursor.createdAt}",and(${column}.eq."${cursor.createdAt}",id.gt.${cursor.id})`;
+}
+
+// Same for newest-first listings: rows strictly before the cursor
+export function beforeCursorFilter(cursor: Cursor, column = 'created_at'): string {
+  return `${column}.lt."${cursor.createdAt}",and(${column}.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+}
+
+// Page size from ?limit=, or null if it is not a positive integer
+export function parseLimit(value: string | null): number | null {
+  if (value === null) return DEFAULT_PAGE_SIZE;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) return null;
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
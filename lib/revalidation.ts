@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { revalidatePath, revalidateTag } from 'next/cache';
+
+// Cache tags of the tag-cached reads in cached-data.ts. Mutating routes call
+// revalidateTasks/revalidateAgents so pages never wait for their ISR timer.
+export const CACHE_TAGS = {
+  tasks: 'tasks',
+  agents: 'agents'
+} as const;
+
+export type CacheTag = typeof CACHE_TAGS[keyof typeof CACHE_TAGS];
+
+// Pages that can be revalidated through POST /api/revalidate
+const REVALIDATABLE_PATHS = ['/', '/tasks', '/agents', '/mission-control'];
+
+// After any task write. taskIds also refreshes those task detail pages.
+export function revalidateTasks(taskIds: (string | null | undefined)[] = []) {
+  revalidateTag(CACHE_TAGS.tasks);
+  revalidatePath('/tasks');
+  revalidatePath('/mission-control');
+  for (const taskId of Array.from(new Set(taskIds))) {
+    if (taskId) revalidatePath(`/tasks/${taskId}`);
+  }
+}
+
+// After any agent write (status, heartbeat, roster)
+export function revalidateAgents() {
+  revalidateTag(CACHE_TAGS.agents);
+  revalidatePath('/agents');
+  revalidatePath('/mission-control');
+}
+
+export function isCacheTag(value: unknown): value is CacheTag {
+  return Object.values(CACHE_TAGS).includes(value as CacheTag);
+}
+
+export function isRevalidatablePath(value: unknown): value is string {
+  return typeof value === 'string' && (
+    REVALIDATABLE_PATHS.includes(value) ||
+    /^\/tasks\/[0-9a-f-]{36}$/i.test(value)
+  );
+}
+
+// --- Signed requests to POST /api/revalidate ---
+//
+// Headers: X-Revalidate-Timestamp (unix seconds) and
+// X-Revalidate-Signature: sha256=<hex HMAC of "<timestamp>.<raw body>">,
+// keyed with REVALIDATION_SECRET. Requests older than the window are
+// rejected and a signature is accepted only once within it.
+
+export const REVALIDATION_WINDOW_SECONDS = 300;
+
+export function signRevalidation(body: string, timestamp: number, secret: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Signatures already used, with the time they stop being replayable.
+// Per server instance; the timestamp window bounds what it has to remember.
+const usedSignatures = new Map<string, number>();
+
+function rememberSignature(signature: string, now: number): boolean {
+  usedSignatures.forEach((expiresAt, key) => {
+    if (expiresAt < now) usedSignatures.delete(key);
+  });
+  if (usedSignatures.has(signature)) return false;
+  usedSignatures.set(signature, now + REVALIDATION_WINDOW_SECONDS);
+  return true;
+}
+
+/**
+ * Checks the signature headers of a revalidation request against its raw
+ * body. Returns an error message, or null when the request is valid.
+ */
+export function verifyRevalidation(body: string, headers: Headers, secret: string): string | null {
+  const timestamp = Number(headers.get('x-revalidate-timestamp'));
+  const signature = headers.get('x-revalidate-signature') || '';
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!Number.isInteger(timestamp) || !signature) {
+    return 'X-Revalidate-Timestamp and X-Revalidate-Signature headers are required';
+  }
+  if (Math.abs(now - timestamp) > REVALIDATION_WINDOW_SECONDS) {
+    return 'Request timestamp is outside the allowed window';
+  }
+
+  const expected = Buffer.from(signRevalidation(body, timestamp, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return 'Invalid signature';
+  }
+
+  if (!rememberSignature(signature, now)) {
+    return 'Request was already used';
+  }
+
+  return null;
+}
@@ -0,0 +1,97 @@
+import parser from 'cron-parser';
+
+// Same schedule model as cron_jobs: schedule_kind + schedule_expr + timezone
+//   cron  - five-field cron expression, evaluated in `timezone`
+//   every - interval in milliseconds ("3600000" or "3600000ms")
+//   at    - single ISO timestamp (runs once)
+export type ScheduleKind = 'cron' | 'every' | 'at';
+
+export interface Schedule {
+  schedule_kind: ScheduleKind;
+  schedule_expr: string;
+  timezone?: string | null;
+}
+
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+// Shortest interval accepted for 'every' schedules
+const MIN_INTERVAL_MS = 60 * 1000;
+
+function parseInterval(expr: string): number | null {
+  const match = expr.trim().match(/^(\d+)(ms)?$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Error message for an invalid schedule, or null if it is valid. An 'at'
+// schedule must lie after `now`, since one in the past would never fire.
+export function validateSchedule(schedule: Schedule, now: Date = new Date()): string | null {
+  const { schedule_kind: kind, schedule_expr: expr } = schedule;
+
+  if (typeof expr !== 'string' || !expr.trim()) {
+    return 'schedule_expr is required';
+  }
+
+  switch (kind) {
+    case 'cron':
+      try {
+        parser.parseExpression(expr, { tz: schedule.timezone || DEFAULT_TIMEZONE });
+        return null;
+      } catch (error) {
+        return `Invalid cron expression: ${error instanceof Error ? error.message : expr}`;
+      }
+    case 'every': {
+      const interval = parseInterval(expr);
+      if (interval === null) return 'Invalid interval. Use milliseconds, e.g. 3600000';
+      if (interval < MIN_INTERVAL_MS) return `Interval must be at least ${MIN_INTERVAL_MS}ms`;
+      return null;
+    }
+    case 'at': {
+      const at = Date.parse(expr);
+      if (Number.isNaN(at)) return 'Invalid timestamp. Use an ISO date';
+      if (at <= now.getTime()) return 'Timestamp is in the past';
+      return null;
+    }
+    default:
+      return 'schedule_kind must be one of: cron, every, at';
+  }
+}
+
+// Next time the schedule fires strictly after `after`, or null if it never will again
+export function nextRunAt(schedule: Schedule, after: Date = new Date()): Date | null {
+  switch (schedule.schedule_kind) {
+    case 'cron':
+      return parser
+        .parseExpression(schedule.schedule_expr, {
+          currentDate: after,
+          tz: schedule.timezone || DEFAULT_TIMEZONE
+        })
+        .next()
+        .toDate();
+    case 'every': {
+      const interval = parseInterval(schedule.schedule_expr);
+      return interval ? new Date(after.getTime() + interval) : null;
+    }
+    case 'at': {
+      const at = new Date(schedule.schedule_expr);
+      return at.getTime() > after.getTime() ? at : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Human-readable summary, e.g. "every 1h" or "cron 0 9 * * 1 (America/Sao_Paulo)"
+export function describeSchedule(schedule: Schedule): string {
+  switch (schedule.schedule_kind) {
+    case 'every': {
+      const ms = parseInterval(schedule.schedule_expr) || 0;
+      if (ms % 86400000 === 0) return `every ${ms / 86400000}d`;
+      if (ms % 3600000 === 0) return `every ${ms / 3600000}h`;
+      return `every ${Math.round(ms / 60000)}m`;
+    }
+    case 'at':
+      return `once at ${schedule.schedule_expr}`;
+    default:
+      return `cron ${schedule.schedule_expr} (${schedule.timezone || DEFAULT_TIMEZONE})`;
+  }
+}
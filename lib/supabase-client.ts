@@ -1,14 +1,12 @@
-import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TaskFilters, applyTaskFilters } from './task-filters';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-
-// Client-side Supabase client (anon key, RLS enforced)
-// Safe to use in browser - respects Row Level Security policies
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Reads run as the logged-in user, so every function takes the session client:
+// createSupabaseServerClient() in server components, createSupabaseBrowserClient()
+// in the browser. The anon key alone reads nothing (migration 017).
 
 // Types based on our schema
-export type TaskStatus = 'backlog' | 'todo' | 'in_progress' | 'done';
+export type TaskStatus = 'backlog' | 'todo' | 'in_progress' | 'blocked' | 'done';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 export type AgentStatus = 'idle' | 'working' | 'offline' | 'error';
 
@@ -20,6 +18,8 @@ export interface Agent {
   memory_path: string | null;
   status: AgentStatus;
   last_heartbeat: string | null;
+  // Set when the agent was retired (soft-deleted)
+  retired_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -32,18 +32,115 @@ export interface Task {
   priority: TaskPriority;
   assigned_agent_id: string | null;
   tags: string[] | null;
+  // Capabilities an agent needs for auto-assign (matched against Agent.capabilities)
+  required_capabilities: string[] | null;
   due_date: string | null;
+  position: number | null;
+  blocked_reason: string | null;
+  blocked_at: string | null;
+  template_id: string | null;
+  // Work lease held by an agent (POST /api/agents/claim)
+  lease_agent_id: string | null;
+  lease_expires_at: string | null;
   created_at: string;
   updated_at: string;
   // Joined data
   assigned_agent?: Agent | null;
+  checklist?: Pick<TaskChecklistItem, 'id' | 'done'>[];
+}
+
+export interface TaskChecklistItem {
+  id: string;
+  task_id: string;
+  title: string;
+  done: boolean;
+  position: number;
+  completed_at: string | null;
+  completed_by_agent_id: string | null;
+  created_at: string;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  enabled: boolean;
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  assigned_agent_id: string | null;
+  tags: string[] | null;
+  checklist: string[] | null;
+  due_in_hours: number | null;
+  schedule_kind: 'cron' | 'every' | 'at';
+  schedule_expr: string;
+  timezone: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_task_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  agent_id: string | null;
+  author_name: string | null;
+  body: string;
+  created_at: string;
+  // Joined data
+  agent?: Pick<Agent, 'id' | 'name' | 'role'> | null;
+}
+
+export interface AgentHeartbeat {
+  id: string;
+  agent_id: string;
+  task_id: string | null;
+  // 0-100, progress on task_id
+  progress: number | null;
+  tokens_used: number | null;
+  status_text: string | null;
+  created_at: string;
+}
+
+// API token of an agent (migration 016); the token itself is never readable
+export interface AgentToken {
+  id: string;
+  agent_id: string;
+  name: string;
+  // First characters of the token, e.g. "amp_3fK9xQ2a"
+  token_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+// Blocker raised in an agent report (migration 020), open until a later
+// report stops mentioning it or an operator resolves it
+export interface AgentBlocker {
+  id: string;
+  agent_id: string;
+  task_id: string | null;
+  description: string;
+  fingerprint: string;
+  status: 'open' | 'resolved';
+  report_count: number;
+  first_reported_at: string;
+  last_reported_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  // Joined data
+  agent?: Pick<Agent, 'id' | 'name'> | null;
+  task?: Pick<Task, 'id' | 'title' | 'status'> | null;
 }
 
-// Fetch all agents
-export async function getAgents(): Promise<Agent[]> {
-  const { data, error } = await supabase
+// Fetch all active (not retired) agents
+export async function getAgents(client: SupabaseClient): Promise<Agent[]> {
+  const { data, error } = await client
     .from('agents')
     .select('*')
+    .is('retired_at', null)
     .order('name');
 
   if (error) {
@@ -54,15 +151,49 @@ export async function getAgents(): Promise<Agent[]> {
   return data || [];
 }
 
-// Fetch all tasks with optional agent join
-export async function getTasks(): Promise<Task[]> {
-  const { data, error } = await supabase
+// Latest heartbeat of every agent, keyed by agent id
+export async function getLatestHeartbeats(client: SupabaseClient): Promise<Record<string, AgentHeartbeat>> {
+  const { data, error } = await client
+    .from('agent_latest_heartbeats')
+    .select('*');
+
+  if (error) {
+    console.error('Error fetching heartbeats:', error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map(h => [h.agent_id, h]));
+}
+
+// Open agent blockers, most recently reported first
+export async function getOpenAgentBlockers(client: SupabaseClient): Promise<AgentBlocker[]> {
+  const { data, error } = await client
+    .from('agent_blockers')
+    .select('*, agent:agents(id, name), task:tasks(id, title, status)')
+    .eq('status', 'open')
+    .order('last_reported_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching agent blockers:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Fetch tasks (optionally filtered) with agent join, in board order
+export async function getTasks(client: SupabaseClient, filters: TaskFilters = {}): Promise<Task[]> {
+  const query = client
     .from('tasks')
     .select(`
       *,
-      assigned_agent:agents(id, name, role, status)
-    `)
-    .order('created_at', { ascending: false });
+      assigned_agent:agents(id, name, role, status),
+      checklist:task_checklist_items(id, done)
+    `);
+
+  const { data, error } = await applyTaskFilters(query, filters)
+    .order('position', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
 
   if (error) {
     console.error('Error fetching tasks:', error);
@@ -72,21 +203,91 @@ export async function getTasks(): Promise<Task[]> {
   return data || [];
 }
 
+// Distinct tags used across all tasks, sorted (for the board tag filter)
+export async function getTaskTags(client: SupabaseClient): Promise<string[]> {
+  const { data, error } = await client
+    .from('tasks')
+    .select('tags')
+    .not('tags', 'is', null);
+
+  if (error) {
+    console.error('Error fetching task tags:', error);
+    return [];
+  }
+
+  const tags = new Set<string>();
+  for (const row of data || []) {
+    for (const tag of row.tags || []) tags.add(tag);
+  }
+  return Array.from(tags).sort();
+}
+
+// Fetch recurring task templates
+export async function getTaskTemplates(client: SupabaseClient): Promise<TaskTemplate[]> {
+  const { data, error } = await client
+    .from('task_templates')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching task templates:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Fetch a task's checklist items in order
+export async function getTaskChecklist(client: SupabaseClient, taskId: string): Promise<TaskChecklistItem[]> {
+  const { data, error } = await client
+    .from('task_checklist_items')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching checklist:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Fetch a task's comment thread, oldest first
+export async function getTaskComments(client: SupabaseClient, taskId: string): Promise<TaskComment[]> {
+  const { data, error } = await client
+    .from('task_comments')
+    .select(`
+      *,
+      agent:agents(id, name, role)
+    `)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching comments:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
 // Fetch tasks grouped by status (for Kanban board)
-export async function getTasksByStatus() {
-  const tasks = await getTasks();
+export async function getTasksByStatus(client: SupabaseClient) {
+  const tasks = await getTasks(client);
   
   return {
     backlog: tasks.filter(t => t.status === 'backlog'),
     todo: tasks.filter(t => t.status === 'todo'),
     in_progress: tasks.filter(t => t.status === 'in_progress'),
+    blocked: tasks.filter(t => t.status === 'blocked'),
     done: tasks.filter(t => t.status === 'done'),
   };
 }
 
 // Update task status
-export async function updateTaskStatus(taskId: string, status: TaskStatus) {
-  const { error } = await supabase
+export async function updateTaskStatus(client: SupabaseClient, taskId: string, status: TaskStatus) {
+  const { error } = await client
     .from('tasks')
     .update({ status, updated_at: new Date().toISOString() })
     .eq('id', taskId);
@@ -105,6 +306,10 @@ export interface TaskHistory {
   agent_id: string | null;
   action: string;
   note: string | null;
+  // Before/after values of the fields this event changed
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  // Person behind a dashboard edit (agent edits use agent_id)
+  actor: string | null;
   created_at: string;
   // Joined data
   agent?: Agent | null;
@@ -112,8 +317,8 @@ export interface TaskHistory {
 }
 
 // Fetch recent activity from task_history
-export async function getRecentActivity(limit = 20): Promise<TaskHistory[]> {
-  const { data, error } = await supabase
+export async function getRecentActivity(client: SupabaseClient, limit = 20): Promise<TaskHistory[]> {
+  const { data, error } = await client
     .from('task_history')
     .select(`
       *,
@@ -130,3 +335,90 @@ export async function getRecentActivity(limit = 20): Promise<TaskHistory[]> {
 
   return data || [];
 }
+
+// Fetch the full history of a single task, oldest first
+export async function getTaskHistory(client: SupabaseClient, taskId: string): Promise<TaskHistory[]> {
+  const { data, error } = await client
+    .from('task_history')
+    .select(`
+      *,
+      agent:agents(name, role)
+    `)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching task history:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export interface TaskSummary {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+export interface DependencyNode {
+  dependencyId: string;
+  task: TaskSummary;
+  depth: number; // 1 = direct link
+}
+
+export interface TaskDependencyChain {
+  blockedBy: DependencyNode[]; // upstream: what has to finish first
+  blocks: DependencyNode[];    // downstream: what is waiting on this task
+}
+
+// Walk the dependency graph in both directions from a task
+export async function getTaskDependencyChain(client: SupabaseClient, taskId: string): Promise<TaskDependencyChain> {
+  const { data: edges, error } = await client
+    .from('task_dependencies')
+    .select('id, task_id, blocked_by_task_id');
+
+  if (error) {
+    console.error('Error fetching dependencies:', error);
+    return { blockedBy: [], blocks: [] };
+  }
+
+  // Breadth-first walk; 'up' follows blocked_by links, 'down' follows dependents
+  const walk = (direction: 'up' | 'down') => {
+    const found: { dependencyId: string; taskId: string; depth: number }[] = [];
+    const visited = new Set([taskId]);
+    let frontier = [taskId];
+    for (let depth = 1; frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const edge of edges || []) {
+        const [from, to] = direction === 'up'
+          ? [edge.task_id, edge.blocked_by_task_id]
+          : [edge.blocked_by_task_id, edge.task_id];
+        if (!frontier.includes(from) || visited.has(to)) continue;
+        visited.add(to);
+        next.push(to);
+        found.push({ dependencyId: edge.id, taskId: to, depth });
+      }
+      frontier = next;
+    }
+    return found;
+  };
+
+  const upstream = walk('up');
+  const downstream = walk('down');
+
+  const ids = [...upstream, ...downstream].map(n => n.taskId);
+  if (ids.length === 0) return { blockedBy: [], blocks: [] };
+
+  const { data: tasks } = await client
+    .from('tasks')
+    .select('id, title, status')
+    .in('id', ids);
+
+  const byId = new Map((tasks || []).map(t => [t.id, t as TaskSummary]));
+  const toNodes = (found: typeof upstream) => found
+    .filter(n => byId.has(n.taskId))
+    .map(n => ({ dependencyId: n.dependencyId, task: byId.get(n.taskId)!, depth: n.depth }));
+
+  return { blockedBy: toNodes(upstream), blocks: toNodes(downstream) };
+}
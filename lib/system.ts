@@ -1,9 +1,9 @@
-import { getAgents, getTasks } from './supabase-client';
+import { getCachedAgents, getCachedTasks } from './cached-data';
 
 export async function getSystemStats() {
   const [agents, tasks] = await Promise.all([
-    getAgents(),
-    getTasks()
+    getCachedAgents(),
+    getCachedTasks()
   ]);
 
   const pendingTasks = tasks.filter(t => t.status !== 'done').length;
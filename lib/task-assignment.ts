@@ -0,0 +1,193 @@
+import { supabaseServer } from './supabase-server';
+import { Agent } from './supabase-client';
+import { diffTask, recordTaskChanges } from './task-history';
+import { UUID_PATTERN } from './pagination';
+
+export type AgentCandidate = Pick<Agent, 'id' | 'name' | 'status' | 'capabilities'> & {
+  // Tasks assigned to the agent that are not done yet
+  openTasks: number;
+};
+
+export interface AssignmentDecision {
+  agent: AgentCandidate | null;
+  // Why this agent (or why nobody) - stored as the task_history note
+  reason: string;
+}
+
+// Capabilities compare case-insensitively, so 'SEO' covers 'seo'
+export function normalizeCapabilities(values: string[]): string[] {
+  return Array.from(new Set(values.map(v => v.trim().toLowerCase()).filter(Boolean)));
+}
+
+function covers(capabilities: string[] | null, required: string[]): boolean {
+  const have = new Set(normalizeCapabilities(capabilities || []));
+  return required.every(c => have.has(c));
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Picks the idle agent with the fewest open tasks among those whose
+// capabilities cover the requirement. Ties go to the first name alphabetically
+// so the choice is stable.
+export function chooseAgent(required: string[], agents: AgentCandidate[]): AssignmentDecision {
+  const needs = required.length > 0 ? required.join(', ') : 'no specific capabilities';
+  const capable = agents.filter(a => covers(a.capabilities, required));
+  const idle = capable
+    .filter(a => a.status === 'idle')
+    .sort((a, b) => a.openTasks - b.openTasks || a.name.localeCompare(b.name));
+
+  if (idle.length === 0) {
+    return {
+      agent: null,
+      reason: capable.length === 0
+        ? `No agent has ${needs}`
+        : `No idle agent has ${needs} (${plural(capable.length, 'matching agent')}, all busy or offline)`
+    };
+  }
+
+  const [agent] = idle;
+  const others = idle.length > 1 ? `, fewest of ${plural(idle.length, 'idle matching agent')}` : ', only idle matching agent';
+  return {
+    agent,
+    reason: `Auto-assigned to ${agent.name}: idle, covers ${needs}; ${plural(agent.openTasks, 'open task')}${others}`
+  };
+}
+
+async function loadCandidates(): Promise<AgentCandidate[]> {
+  const [{ data: agents, error: agentsError }, { data: open, error: openError }] = await Promise.all([
+    supabaseServer
+      .from('agents')
+      .select('id, name, status, capabilities')
+      .is('retired_at', null),
+    supabaseServer
+      .from('tasks')
+      .select('assigned_agent_id')
+      .neq('status', 'done')
+      .not('assigned_agent_id', 'is', null)
+  ]);
+
+  if (agentsError) throw new Error(`Failed to load agents: ${agentsError.message}`);
+  if (openError) throw new Error(`Failed to load agent workload: ${openError.message}`);
+
+  const load = new Map<string, number>();
+  for (const task of open || []) {
+    load.set(task.assigned_agent_id, (load.get(task.assigned_agent_id) ?? 0) + 1);
+  }
+
+  return (agents || []).map(agent => ({ ...agent, openTasks: load.get(agent.id) ?? 0 }));
+}
+
+/**
+ * Assigns a task to the best matching agent and explains the decision in
+ * task_history, including when no agent qualifies. Returns the decision.
+ */
+export async function autoAssignTask(
+  taskId: string,
+  attribution: { agentId?: string | null; actor?: string | null } = {}
+): Promise<AssignmentDecision> {
+  const { data: task, error } = await supabaseServer
+    .from('tasks')
+    .select('id, status, priority, assigned_agent_id, description, blocked_reason, due_date, tags, required_capabilities')
+    .eq('id', taskId)
+    .single();
+
+  if (error || !task) {
+    throw new Error(`Task not found: ${taskId}`);
+  }
+
+  const decision = chooseAgent(normalizeCapabilities(task.required_capabilities || []), await loadCandidates());
+
+  if (!decision.agent) {
+    await supabaseServer
+      .from('task_history')
+      .insert({
+        task_id: taskId,
+        agent_id: attribution.agentId || null,
+        actor: attribution.actor || null,
+        action: 'auto_assign_failed',
+        note: decision.reason
+      });
+    return decision;
+  }
+
+  const updates = { assigned_agent_id: decision.agent.id };
+  const { error: updateError } = await supabaseServer
+    .from('tasks')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', taskId);
+
+  if (updateError) {
+    throw new Error(`Failed to assign task: ${updateError.message}`);
+  }
+
+  await recordTaskChanges([{
+    taskId,
+    action: 'auto_assigned',
+    changes: diffTask(task, updates),
+    note: decision.reason,
+    agentId: attribution.agentId,
+    actor: attribution.actor
+  }]);
+
+  return decision;
+}
+
+// Escape LIKE wildcards so an owner name is matched literally
+function likeLiteral(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+/**
+ * Checks an assigned_agent_id from a request: null (unassign) or an active
+ * agent. Returns the error to send back, or null if the task can go to it.
+ */
+export async function assigneeError(agentId: unknown): Promise<{ error: string; status: 400 | 409 } | null> {
+  if (agentId === null) return null;
+  if (typeof agentId !== 'string' || !UUID_PATTERN.test(agentId)) {
+    return { error: 'assigned_agent_id must be an agent ID or null', status: 400 };
+  }
+
+  const { data: agent, error } = await supabaseServer
+    .from('agents')
+    .select('id, retired_at')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch agent: ${error.message}`);
+  }
+  if (!agent) return { error: 'Agent not found', status: 400 };
+  if (agent.retired_at) return { error: 'Agent is retired', status: 409 };
+  return null;
+}
+
+/**
+ * Finds the agent an owner name refers to: an exact (case-insensitive) name
+ * first, then a unique partial match. `matches` lists every partial match so
+ * callers can report ambiguous names instead of picking one at random.
+ */
+export async function resolveOwner(owner: string): Promise<{ agent: { id: string; name: string } | null; matches: { id: string; name: string }[] }> {
+  const name = likeLiteral(owner.trim().replace(/^@/, ''));
+
+  const { data: exact } = await supabaseServer
+    .from('agents')
+    .select('id, name')
+    .is('retired_at', null)
+    .ilike('name', name);
+
+  if (exact && exact.length === 1) {
+    return { agent: exact[0], matches: exact };
+  }
+
+  const { data: partial } = await supabaseServer
+    .from('agents')
+    .select('id, name')
+    .is('retired_at', null)
+    .ilike('name', `%${name}%`)
+    .order('name');
+
+  const matches = partial || [];
+  return { agent: matches.length === 1 ? matches[0] : null, matches };
+}
@@ -0,0 +1,97 @@
+import { supabaseServer } from './supabase-server';
+import { recordTaskChanges } from './task-history';
+import { CLEARED_LEASE } from './task-leases';
+
+// Append items to the end of a task's checklist
+export async function addChecklistItems(taskId: string, titles: string[]) {
+  const clean = titles.map(t => t.trim()).filter(Boolean);
+  if (clean.length === 0) return [];
+
+  const { data: last } = await supabaseServer
+    .from('task_checklist_items')
+    .select('position')
+    .eq('task_id', taskId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const start = (last?.position ?? -1) + 1;
+  const { data, error } = await supabaseServer
+    .from('task_checklist_items')
+    .insert(clean.map((title, idx) => ({ task_id: taskId, title, position: start + idx })))
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to add checklist items: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Tick or untick items, then auto-complete any parent task whose checklist is now fully done.
+// Returns the ids of the tasks that were completed as a result.
+export async function setChecklistItemsDone(itemIds: string[], done: boolean, agentId?: string | null): Promise<string[]> {
+  if (itemIds.length === 0) return [];
+
+  const { data, error } = await supabaseServer
+    .from('task_checklist_items')
+    .update({
+      done,
+      completed_at: done ? new Date().toISOString() : null,
+      completed_by_agent_id: done ? agentId || null : null
+    })
+    .in('id', itemIds)
+    .select('task_id');
+
+  if (error) {
+    throw new Error(`Failed to update checklist items: ${error.message}`);
+  }
+
+  if (!done) return [];
+
+  const taskIds = Array.from(new Set((data || []).map(item => item.task_id)));
+  const completed: string[] = [];
+  for (const taskId of taskIds) {
+    if (await completeTaskIfChecklistDone(taskId, agentId)) {
+      completed.push(taskId);
+    }
+  }
+
+  return completed;
+}
+
+// Mark a task done once it has checklist items and all of them are done.
+// Blocked tasks are left alone: they have to be unblocked explicitly.
+export async function completeTaskIfChecklistDone(taskId: string, agentId?: string | null): Promise<boolean> {
+  const [{ data: items, error: itemsError }, { data: task }] = await Promise.all([
+    supabaseServer.from('task_checklist_items').select('done').eq('task_id', taskId),
+    supabaseServer.from('tasks').select('status').eq('id', taskId).maybeSingle()
+  ]);
+
+  if (itemsError) {
+    throw new Error(`Failed to fetch checklist items: ${itemsError.message}`);
+  }
+
+  if (!task || task.status === 'done' || task.status === 'blocked') return false;
+  if (!items || items.length === 0 || items.some(item => !item.done)) return false;
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseServer
+    .from('tasks')
+    .update({ status: 'done', ...CLEARED_LEASE, updated_at: now })
+    .eq('id', taskId);
+
+  if (error) {
+    throw new Error(`Failed to complete task: ${error.message}`);
+  }
+
+  await recordTaskChanges([{
+    taskId,
+    action: 'completed',
+    changes: { status: { from: task.status, to: 'done' } },
+    note: `All ${items.length} checklist items done`,
+    agentId
+  }]);
+
+  return true;
+}
@@ -0,0 +1,61 @@
+import { supabaseServer } from './supabase-server';
+import { TaskStatus } from './supabase-client';
+
+export interface BlockerSummary {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+// Map of task id -> blockers that are not done yet
+export async function getOpenBlockers(taskIds: string[]): Promise<Map<string, BlockerSummary[]>> {
+  const open = new Map<string, BlockerSummary[]>();
+  if (taskIds.length === 0) return open;
+
+  const { data, error } = await supabaseServer
+    .from('task_dependencies')
+    .select('task_id, blocker:tasks!blocked_by_task_id(id, title, status)')
+    .in('task_id', taskIds);
+
+  if (error) {
+    console.error('Error fetching task dependencies:', error);
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  for (const row of data || []) {
+    const blocker = row.blocker as unknown as BlockerSummary | null;
+    if (!blocker || blocker.status === 'done') continue;
+    open.set(row.task_id, [...(open.get(row.task_id) || []), blocker]);
+  }
+
+  return open;
+}
+
+// True if making taskId depend on blockedById would close a loop,
+// i.e. blockedById is already (transitively) waiting on taskId
+export async function wouldCreateCycle(taskId: string, blockedById: string): Promise<boolean> {
+  const { data, error } = await supabaseServer
+    .from('task_dependencies')
+    .select('task_id, blocked_by_task_id');
+
+  if (error) {
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  const blockersOf = new Map<string, string[]>();
+  for (const edge of data || []) {
+    blockersOf.set(edge.task_id, [...(blockersOf.get(edge.task_id) || []), edge.blocked_by_task_id]);
+  }
+
+  const visited = new Set<string>();
+  const queue = [blockedById];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    queue.push(...(blockersOf.get(current) || []));
+  }
+
+  return false;
+}
@@ -0,0 +1,129 @@
+import { TaskPriority, TaskStatus } from './supabase-client';
+
+// Board filters, shared by GET /api/tasks, the /tasks page and its URL state
+export interface TaskFilters {
+  q?: string;               // Full-text search over title + description
+  status?: TaskStatus[];
+  assignee?: string;        // Agent id, or 'unassigned'
+  priority?: TaskPriority[];
+  tag?: string;
+  from?: string;            // created_at lower bound (ISO date or timestamp)
+  to?: string;              // created_at upper bound, inclusive
+  updated_since?: string;   // updated_at lower bound, for incremental syncs
+}
+
+const STATUSES: TaskStatus[] = ['backlog', 'todo', 'in_progress', 'blocked', 'done'];
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+type ParamSource = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function readParam(params: ParamSource, key: string): string | undefined {
+  const value = params instanceof URLSearchParams
+    ? params.get(key)
+    : params[key];
+  const single = Array.isArray(value) ? value[0] : value;
+  return single?.trim() || undefined;
+}
+
+// Read filters from query params, dropping anything malformed
+export function parseTaskFilters(params: ParamSource): TaskFilters {
+  const filters: TaskFilters = {};
+
+  const q = readParam(params, 'q');
+  if (q) filters.q = q;
+
+  const status = readParam(params, 'status')
+    ?.split(',')
+    .filter((s): s is TaskStatus => STATUSES.includes(s as TaskStatus));
+  if (status && status.length > 0) filters.status = status;
+
+  const assignee = readParam(params, 'assignee');
+  if (assignee) filters.assignee = assignee;
+
+  const priority = readParam(params, 'priority')
+    ?.split(',')
+    .filter((p): p is TaskPriority => PRIORITIES.includes(p as TaskPriority));
+  if (priority && priority.length > 0) filters.priority = priority;
+
+  const tag = readParam(params, 'tag');
+  if (tag) filters.tag = tag;
+
+  for (const key of ['from', 'to', 'updated_since'] as const) {
+    const value = readParam(params, key);
+    if (value && !Number.isNaN(Date.parse(value))) filters[key] = value;
+  }
+
+  return filters;
+}
+
+export function hasTaskFilters(filters: TaskFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+// Serialize filters back into a query string (without the leading '?')
+export function taskFiltersToQuery(filters: TaskFilters): string {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  if (filters.status?.length) params.set('status', filters.status.join(','));
+  if (filters.assignee) params.set('assignee', filters.assignee);
+  if (filters.priority?.length) params.set('priority', filters.priority.join(','));
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.updated_since) params.set('updated_since', filters.updated_since);
+  return params.toString();
+}
+
+// The subset of the Supabase query builder the filters need
+interface FilterableQuery<T> {
+  textSearch(column: string, query: string, options?: { config?: string; type?: 'plain' | 'phrase' | 'websearch' }): T;
+  eq(column: string, value: string): T;
+  is(column: string, value: null): T;
+  in(column: string, values: string[]): T;
+  contains(column: string, value: string[]): T;
+  gte(column: string, value: string): T;
+  lte(column: string, value: string): T;
+}
+
+// Apply filters to a tasks select query
+export function applyTaskFilters<T extends FilterableQuery<T>>(query: T, filters: TaskFilters): T {
+  let result = query;
+
+  if (filters.q) {
+    result = result.textSearch('search_vector', filters.q, { config: 'simple', type: 'websearch' });
+  }
+
+  if (filters.status?.length) {
+    result = result.in('status', filters.status);
+  }
+
+  if (filters.assignee === 'unassigned') {
+    result = result.is('assigned_agent_id', null);
+  } else if (filters.assignee) {
+    result = result.eq('assigned_agent_id', filters.assignee);
+  }
+
+  if (filters.priority?.length) {
+    result = result.in('priority', filters.priority);
+  }
+
+  if (filters.tag) {
+    result = result.contains('tags', [filters.tag]);
+  }
+
+  if (filters.from) {
+    result = result.gte('created_at', filters.from);
+  }
+
+  if (filters.to) {
+    // A bare date means "through the end of that day"
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? `${filters.to}T23:59:59.999Z` : filters.to;
+    result = result.lte('created_at', to);
+  }
+
+  if (filters.updated_since) {
+    result = result.gte('updated_at', filters.updated_since);
+  }
+
+  return result;
+}
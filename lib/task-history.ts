@@ -0,0 +1,80 @@
+import { supabaseServer } from './supabase-server';
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Fields whose edits show up on the task timeline. position is left out on
+// purpose: reordering cards within a column is not worth a history entry.
+export const TRACKED_FIELDS = [
+  'status',
+  'priority',
+  'assigned_agent_id',
+  'description',
+  'blocked_reason',
+  'due_date',
+  'tags',
+  'required_capabilities',
+] as const;
+
+// Before/after values of the tracked fields that an update actually changes
+export function diffTask(before: Record<string, unknown>, updates: Record<string, unknown>): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    if (!(field in updates)) continue;
+    const from = before[field] ?? null;
+    const to = updates[field] ?? null;
+    if (!sameValue(field, from, to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Timestamps come back from Postgres as "+00:00" but are sent as "Z"
+function sameValue(field: string, from: unknown, to: unknown): boolean {
+  if (field === 'due_date' && from && to) {
+    return Date.parse(String(from)) === Date.parse(String(to));
+  }
+  return JSON.stringify(from) === JSON.stringify(to);
+}
+
+// One-line summary of a change set, used as the history note
+export function describeChanges(changes: FieldChanges): string {
+  return Object.entries(changes)
+    .map(([field, { from, to }]) => {
+      // Long text fields are summarised rather than inlined
+      if (field === 'description') return 'description edited';
+      return `${field}: ${from ?? '—'} → ${to ?? '—'}`;
+    })
+    .join(', ');
+}
+
+export interface TaskChangeEntry {
+  taskId: string;
+  action: string;
+  changes: FieldChanges;
+  note?: string | null;
+  agentId?: string | null;
+  actor?: string | null;
+}
+
+// Write change entries to task_history. Logging must never fail the edit
+// itself, so errors are reported and swallowed.
+export async function recordTaskChanges(entries: TaskChangeEntry[]) {
+  const rows = entries
+    .filter(entry => Object.keys(entry.changes).length > 0)
+    .map(entry => ({
+      task_id: entry.taskId,
+      agent_id: entry.agentId || null,
+      actor: entry.actor || null,
+      action: entry.action,
+      changes: entry.changes,
+      note: entry.note ?? describeChanges(entry.changes)
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseServer.from('task_history').insert(rows);
+  if (error) {
+    console.error('Error recording task history:', error);
+  }
+}
@@ -0,0 +1,104 @@
+import { supabaseServer } from './supabase-server';
+import { Task } from './supabase-client';
+
+// Work leases (migration 014). An agent claims the next eligible task for a
+// limited time and renews the lease while it works; if it stalls, the lease
+// runs out and the task goes back to the queue for another agent.
+
+export const DEFAULT_LEASE_SECONDS = 15 * 60;
+export const MAX_LEASE_SECONDS = 4 * 60 * 60;
+
+// Leases only live while a task is in progress; spread into every update that
+// moves a task to another status
+export const CLEARED_LEASE = { lease_agent_id: null, lease_expires_at: null };
+
+// Lease length from the request, or null if it is not a positive integer
+export function parseLeaseSeconds(value: unknown): number | null {
+  if (value === undefined || value === null) return DEFAULT_LEASE_SECONDS;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) return null;
+  return Math.min(value, MAX_LEASE_SECONDS);
+}
+
+// True if someone else holds a lease on the task that has not run out yet
+export function isLeasedByOther(task: Pick<Task, 'lease_agent_id' | 'lease_expires_at'>, agentId: string, now = Date.now()): boolean {
+  return !!task.lease_agent_id &&
+    task.lease_agent_id !== agentId &&
+    !!task.lease_expires_at &&
+    Date.parse(task.lease_expires_at) > now;
+}
+
+// Leases the next eligible task to the agent, or returns null if the queue is empty
+export async function claimNextTask(agentId: string, leaseSeconds: number): Promise<Task | null> {
+  const { data, error } = await supabaseServer
+    .rpc('claim_next_task', { p_agent_id: agentId, p_ttl_seconds: leaseSeconds });
+
+  if (error) {
+    throw new Error(`Failed to claim task: ${error.message}`);
+  }
+
+  const task = ((data || []) as Task[])[0] || null;
+  if (task) {
+    await supabaseServer
+      .from('task_history')
+      .insert({
+        task_id: task.id,
+        agent_id: agentId,
+        action: 'claimed',
+        note: `Leased until ${task.lease_expires_at}`
+      });
+  }
+  return task;
+}
+
+// Extends the agent's lease (never shortens it). Returns null if the lease was lost (expired or never held).
+export async function renewLease(taskId: string, agentId: string, leaseSeconds: number): Promise<Task | null> {
+  const { data, error } = await supabaseServer
+    .rpc('renew_task_lease', { p_task_id: taskId, p_agent_id: agentId, p_ttl_seconds: leaseSeconds });
+
+  if (error) {
+    throw new Error(`Failed to renew lease: ${error.message}`);
+  }
+  return ((data || []) as Task[])[0] || null;
+}
+
+// Gives a leased task back to the queue. Returns false if the agent does not hold the lease.
+export async function releaseLease(taskId: string, agentId: string, reason?: string): Promise<boolean> {
+  const { data, error } = await supabaseServer
+    .from('tasks')
+    .update({
+      status: 'todo',
+      assigned_agent_id: null,
+      lease_agent_id: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', taskId)
+    .eq('lease_agent_id', agentId)
+    .eq('status', 'in_progress')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to release lease: ${error.message}`);
+  }
+  if (!data || data.length === 0) return false;
+
+  await supabaseServer
+    .from('task_history')
+    .insert({
+      task_id: taskId,
+      agent_id: agentId,
+      action: 'released',
+      note: reason || 'Task returned to the queue'
+    });
+  return true;
+}
+
+// Sweeps leases that ran out. claim_next_task already does this on every claim.
+export async function releaseExpiredLeases(): Promise<Task[]> {
+  const { data, error } = await supabaseServer.rpc('release_expired_leases');
+
+  if (error) {
+    throw new Error(`Failed to release expired leases: ${error.message}`);
+  }
+  return (data || []) as Task[];
+}
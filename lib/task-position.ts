@@ -0,0 +1,19 @@
+// Gap between consecutive positions when appending to a column
+export const POSITION_STEP = 1024;
+
+// Compute a position that sorts between two neighbours.
+// Either neighbour may be missing (top/bottom of the column).
+export function positionBetween(before: number | null | undefined, after: number | null | undefined): number {
+  if (before == null && after == null) return POSITION_STEP;
+  if (before == null) return (after as number) - POSITION_STEP;
+  if (after == null) return before + POSITION_STEP;
+  return (before + after) / 2;
+}
+
+// Order tasks the way the board shows them: by position, unpositioned last
+export function compareByPosition<T extends { position: number | null; created_at: string }>(a: T, b: T): number {
+  if (a.position == null && b.position == null) return a.created_at.localeCompare(b.created_at);
+  if (a.position == null) return 1;
+  if (b.position == null) return -1;
+  return a.position - b.position;
+}
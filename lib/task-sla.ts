@@ -0,0 +1,41 @@
+import { Task, TaskPriority, TaskStatus } from './supabase-client';
+
+// How long a task may stay open, by priority, when it has no explicit due date
+export const SLA_HOURS: Record<TaskPriority, number> = {
+  critical: 4,
+  high: 24,
+  medium: 72,
+  low: 168,
+};
+
+// Only tasks someone has committed to are held to the SLA; the backlog is
+// open-ended (an explicit due date still applies there)
+export const SLA_STATUSES: TaskStatus[] = ['todo', 'in_progress'];
+
+type DeadlineFields = Pick<Task, 'status' | 'priority' | 'due_date' | 'created_at'>;
+
+// Explicit due date wins; otherwise the SLA counted from creation, or null
+// when the task has no deadline at all
+export function getDeadline(task: DeadlineFields): { at: Date; source: 'due_date' | 'sla' } | null {
+  if (task.due_date) {
+    return { at: new Date(task.due_date), source: 'due_date' };
+  }
+  if (!SLA_STATUSES.includes(task.status)) return null;
+  const hours = SLA_HOURS[task.priority] ?? SLA_HOURS.medium;
+  return { at: new Date(new Date(task.created_at).getTime() + hours * 60 * 60 * 1000), source: 'sla' };
+}
+
+export function isOverdue(task: DeadlineFields, now = Date.now()): boolean {
+  const deadline = getDeadline(task);
+  return task.status !== 'done' && deadline !== null && deadline.at.getTime() < now;
+}
+
+// Short "how late" label, e.g. "3h late" or "2d late"
+export function formatOverdue(task: DeadlineFields, now = Date.now()): string {
+  const deadline = getDeadline(task);
+  if (!deadline) return '';
+  const hours = Math.floor((now - deadline.at.getTime()) / (60 * 60 * 1000));
+  if (hours < 1) return '<1h late';
+  if (hours < 48) return `${hours}h late`;
+  return `${Math.floor(hours / 24)}d late`;
+}
@@ -0,0 +1,114 @@
+import { supabaseServer } from './supabase-server';
+import { TaskStatus, TaskTemplate } from './supabase-client';
+import { POSITION_STEP } from './task-position';
+import { addChecklistItems } from './task-checklist';
+import { nextRunAt } from './schedule';
+
+export interface MaterializeResult {
+  templateId: string;
+  name: string;
+  taskId?: string;
+  error?: string;
+}
+
+// Create a task from a template. Does not touch the template's schedule.
+export async function materializeTemplate(template: TaskTemplate, now: Date = new Date()): Promise<string> {
+  // Append to the bottom of the backlog column, like POST /api/tasks
+  const { data: last } = await supabaseServer
+    .from('tasks')
+    .select('position')
+    .eq('status', 'backlog')
+    .not('position', 'is', null)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: task, error } = await supabaseServer
+    .from('tasks')
+    .insert({
+      title: template.title,
+      description: template.description,
+      status: 'backlog' as TaskStatus,
+      priority: template.priority,
+      assigned_agent_id: template.assigned_agent_id,
+      tags: template.tags,
+      due_date: template.due_in_hours
+        ? new Date(now.getTime() + template.due_in_hours * 60 * 60 * 1000).toISOString()
+        : null,
+      template_id: template.id,
+      position: (last?.position ?? 0) + POSITION_STEP
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create task from template: ${error.message}`);
+  }
+
+  if (template.checklist?.length) {
+    await addChecklistItems(task.id, template.checklist);
+  }
+
+  await supabaseServer
+    .from('task_history')
+    .insert({
+      task_id: task.id,
+      agent_id: null,
+      action: 'created',
+      note: `Created from template "${template.name}"`
+    });
+
+  await supabaseServer
+    .from('task_templates')
+    .update({ last_run_at: now.toISOString(), last_task_id: task.id, updated_at: now.toISOString() })
+    .eq('id', template.id);
+
+  return task.id;
+}
+
+// Materialize every enabled template whose next_run_at has passed.
+// Each template is claimed by moving next_run_at forward with a conditional
+// update first, so overlapping runs never create the same task twice.
+export async function runDueTemplates(now: Date = new Date()): Promise<MaterializeResult[]> {
+  const { data: due, error } = await supabaseServer
+    .from('task_templates')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch due templates: ${error.message}`);
+  }
+
+  const results: MaterializeResult[] = [];
+  for (const template of (due || []) as TaskTemplate[]) {
+    const next = nextRunAt(template, now);
+    const { data: claimed } = await supabaseServer
+      .from('task_templates')
+      .update({
+        next_run_at: next?.toISOString() ?? null,
+        // One-shot schedules switch themselves off after firing
+        enabled: next !== null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', template.id)
+      .eq('next_run_at', template.next_run_at)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      const taskId = await materializeTemplate(template, now);
+      results.push({ templateId: template.id, name: template.name, taskId });
+    } catch (err) {
+      console.error(`Error materializing template ${template.name}:`, err);
+      results.push({
+        templateId: template.id,
+        name: template.name,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      });
+    }
+  }
+
+  return results;
+}
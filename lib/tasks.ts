@@ -2,7 +2,7 @@ import fs from 'fs';
 import path from 'path';
 
 const WORKSPACE_ROOT = process.cwd().endsWith('dashboard') ? path.join(process.cwd(), '../') : process.cwd(); 
-const BOARD_PATH = path.join(WORKSPACE_ROOT, 'board/TASKS.md');
+export const BOARD_PATH = path.join(WORKSPACE_ROOT, 'board/TASKS.md');
 
 export type TaskStatus = 'backlog' | 'in_progress' | 'done';
 
@@ -26,7 +26,10 @@ export async function getBoardData(): Promise<BoardData> {
     return { backlog: [], inProgress: [], done: [] };
   }
 
-  const content = fs.readFileSync(BOARD_PATH, 'utf8');
+  return parseBoardMarkdown(fs.readFileSync(BOARD_PATH, 'utf8'));
+}
+
+export function parseBoardMarkdown(content: string): BoardData {
   const lines = content.split('\n');
   
   const board: BoardData = {
@@ -58,10 +61,12 @@ export async function getBoardData(): Promise<BoardData> {
       const isDone = taskMatch[1] === 'x';
       const title = taskMatch[2].trim();
       
-      // Extract owner from title if present (e.g., "Task Name (Owner)")
-      const ownerMatch = title.match(/\(([^)]+)\)\s*$/);
-      const owner = ownerMatch ? ownerMatch[1] : undefined;
-      const cleanTitle = ownerMatch ? title.replace(/\s*\([^)]+\)\s*$/, '') : title;
+      // Extract owner from title if present (e.g., "Task Name (Owner)").
+      // Escaped parentheses ("Fix login \(urgent\)") are part of the title.
+      const ownerMatch = title.match(/(^|[^\\])\(([^)]+)\)\s*$/);
+      const owner = ownerMatch ? ownerMatch[2] : undefined;
+      const cleanTitle = (ownerMatch ? title.slice(0, ownerMatch.index + ownerMatch[1].length).trim() : title)
+        .replace(/\\([()])/g, '$1');
 
       board[currentSection].push({
         title: cleanTitle,
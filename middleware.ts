@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { getUserRole, hasRole, requiredRole } from '@/lib/auth';
+
+// Login and role checks for pages and API routes (see requiredRole in lib/auth.ts).
+// Also refreshes the Supabase session cookies on every checked request.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const hasAgentToken = /^Bearer\s+\S+$/i.test(request.headers.get('authorization') || '');
+  const required = requiredRole(pathname, request.method, hasAgentToken);
+
+  if (!required) {
+    return NextResponse.next();
+  }
+
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+        }
+      }
+    }
+  );
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const isApi = pathname.startsWith('/api/');
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Login required' }, { status: 401 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(login);
+  }
+
+  const role = await getUserRole(supabase, user.id);
+  if (!hasRole(role, required)) {
+    if (isApi) {
+      return NextResponse.json({ error: `Requires the ${required} role (you are ${role})` }, { status: 403 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('error', 'forbidden');
+    return NextResponse.redirect(login);
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+};
@@ -0,0 +1,24 @@
+-- Migration 004: Add position to tasks
+-- Stores the in-column ordering of the Kanban board (lower = picked first)
+-- Date: 2026-10-19
+
+-- Fractional positions let a card be dropped between two neighbours
+-- without renumbering the whole column
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS position double precision;
+
+-- Backfill existing tasks in creation order, per status column
+UPDATE tasks
+SET position = ordered.rn * 1024
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY status ORDER BY created_at ASC) AS rn
+  FROM tasks
+) AS ordered
+WHERE tasks.id = ordered.id
+  AND tasks.position IS NULL;
+
+-- Add index for ordered column reads
+CREATE INDEX IF NOT EXISTS idx_tasks_status_position ON tasks(status, position);
+
+-- Comment
+COMMENT ON COLUMN tasks.position IS 'Ordering of the task inside its status column on the Kanban board';
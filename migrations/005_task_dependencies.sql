@@ -0,0 +1,29 @@
+-- Migration 005: Task dependencies
+-- "Blocked by / blocks" links between tasks
+-- Date: 2026-10-19
+
+-- task_id is blocked by blocked_by_task_id until the latter is done
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  blocked_by_task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (task_id, blocked_by_task_id),
+  CHECK (task_id <> blocked_by_task_id)
+);
+
+-- Add indexes for both directions of the graph
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_task_id);
+
+-- RLS: same read access as tasks, writes go through the service role
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anon read access on task_dependencies"
+ON task_dependencies
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Comment
+COMMENT ON TABLE task_dependencies IS 'Edges of the task dependency graph: task_id cannot start while blocked_by_task_id is open';
@@ -0,0 +1,23 @@
+-- Migration 006: First-class blocked status for tasks
+-- Adds 'blocked' to the allowed task states and stores why/when a task was blocked
+-- Date: 2026-10-19
+
+-- Allow the new state whether status is an enum or a checked text column
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'task_status') THEN
+    ALTER TYPE task_status ADD VALUE IF NOT EXISTS 'blocked';
+  END IF;
+END $$;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_status_check
+CHECK (status::text IN ('backlog', 'todo', 'in_progress', 'blocked', 'done'));
+
+-- Reason and timestamp of the current block (cleared on unblock)
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS blocked_reason text,
+ADD COLUMN IF NOT EXISTS blocked_at timestamptz;
+
+-- Comment
+COMMENT ON COLUMN tasks.blocked_reason IS 'Why the task is blocked; set together with status = blocked';
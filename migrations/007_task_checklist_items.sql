@@ -0,0 +1,29 @@
+-- Migration 007: Task checklist items
+-- Subtasks/deliverables with their own done flag (previously stored in tasks.tags)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  done boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  completed_at timestamptz,
+  completed_by_agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Add index for loading a task's checklist in order
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task ON task_checklist_items(task_id, position);
+
+-- RLS: same read access as tasks, writes go through the service role
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anon read access on task_checklist_items"
+ON task_checklist_items
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Comment
+COMMENT ON TABLE task_checklist_items IS 'Checklist items of a task; the task auto-completes when every item is done';
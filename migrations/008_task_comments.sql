@@ -0,0 +1,29 @@
+-- Migration 008: Task comments
+-- Discussion thread per task, written by people or agents
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  -- Also set for agent comments, so the row still has an author once agent_id is nulled
+  author_name text,
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (agent_id IS NOT NULL OR author_name IS NOT NULL)
+);
+
+-- Add index for loading a thread in order
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+
+-- RLS: same read access as tasks, writes go through the service role
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anon read access on task_comments"
+ON task_comments
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Comment
+COMMENT ON TABLE task_comments IS 'Markdown comments on a task; author is an agent (agent_id, with its name copied to author_name) or a person (author_name only)';
@@ -0,0 +1,16 @@
+-- Migration 009: Field-level change tracking on task_history
+-- Stores before/after values and who made the change
+-- Date: 2026-10-19
+
+-- changes: { "<field>": { "from": <old>, "to": <new> }, ... }
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS changes jsonb;
+
+-- actor: name of the person behind a dashboard edit (agent edits use agent_id)
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS actor text;
+
+-- Add index for the per-task timeline
+CREATE INDEX IF NOT EXISTS idx_task_history_task_created ON task_history(task_id, created_at);
+
+-- Comment
+COMMENT ON COLUMN task_history.changes IS 'Before/after values of the fields changed by this event';
+COMMENT ON COLUMN task_history.actor IS 'Person who made the change when it did not come from an agent';
@@ -0,0 +1,12 @@
+-- Migration 010: Task due dates
+-- Explicit deadline per task; tasks without one fall back to the priority SLA (lib/task-sla.ts)
+-- Date: 2026-10-19
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS due_date timestamptz;
+
+-- Add index for overdue lookups on open tasks
+CREATE INDEX IF NOT EXISTS idx_tasks_open_due_date ON tasks(due_date) WHERE status <> 'done';
+
+-- Comment
+COMMENT ON COLUMN tasks.due_date IS 'Deadline of the task; NULL means the SLA for its priority applies';
@@ -0,0 +1,20 @@
+-- Migration 011: Full-text search on tasks
+-- Generated tsvector over title + description for the board search box
+-- Date: 2026-10-19
+
+-- 'simple' config: task text mixes Portuguese and English, so no stemming
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+) STORED;
+
+-- Add index for full-text queries
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING gin(search_vector);
+
+-- Add index for tag filters
+CREATE INDEX IF NOT EXISTS idx_tasks_tags ON tasks USING gin(tags);
+
+-- Comment
+COMMENT ON COLUMN tasks.search_vector IS 'Full-text index of title (weight A) and description (weight B)';
@@ -0,0 +1,50 @@
+-- Migration 012: Recurring task templates
+-- Templates materialize new tasks on a schedule (same schedule model as cron_jobs)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS task_templates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL UNIQUE,
+  enabled boolean NOT NULL DEFAULT true,
+
+  -- Fields copied onto each generated task
+  title text NOT NULL,
+  description text,
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+  assigned_agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  tags text[],
+  checklist text[],
+  due_in_hours integer CHECK (due_in_hours > 0),
+
+  -- Schedule configuration (see cron_jobs)
+  schedule_kind text NOT NULL CHECK (schedule_kind IN ('cron', 'every', 'at')),
+  schedule_expr text NOT NULL,
+  timezone text DEFAULT 'America/Sao_Paulo',
+
+  -- State tracking
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  last_task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Link generated tasks back to their template
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES task_templates(id) ON DELETE SET NULL;
+
+-- Add index for the "what is due" scan
+CREATE INDEX IF NOT EXISTS idx_task_templates_due ON task_templates(next_run_at) WHERE enabled;
+
+-- RLS: same read access as tasks, writes go through the service role
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anon read access on task_templates"
+ON task_templates
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Comment
+COMMENT ON TABLE task_templates IS 'Recurring task definitions; POST /api/tasks/templates/run materializes the due ones';
@@ -0,0 +1,12 @@
+-- Migration 013: Task required capabilities
+-- Tasks can list the capabilities an agent needs; auto-assign matches them against agents.capabilities
+-- Date: 2026-10-19
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS required_capabilities text[];
+
+-- Add index for capability containment lookups (agents.capabilities @> tasks.required_capabilities)
+CREATE INDEX IF NOT EXISTS idx_agents_capabilities ON agents USING gin(capabilities);
+
+-- Comment
+COMMENT ON COLUMN tasks.required_capabilities IS 'Capabilities an agent must have to be auto-assigned this task; NULL means any agent';
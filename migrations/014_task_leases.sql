@@ -0,0 +1,138 @@
+-- Migration 014: Task leases
+-- Agents claim work from a queue with a time-limited lease; expired leases return the task to the queue
+-- Date: 2026-10-19
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS lease_agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz;
+
+-- Add index for the expiry sweep
+CREATE INDEX IF NOT EXISTS idx_tasks_lease_expires_at ON tasks(lease_expires_at) WHERE lease_agent_id IS NOT NULL;
+
+-- Return tasks whose lease ran out to the queue: back to 'todo', unassigned.
+-- Logged to task_history so the timeline shows who stalled. Tasks that were
+-- moved on by hand in the meantime (done, blocked) just lose the lease.
+CREATE OR REPLACE FUNCTION release_expired_leases()
+RETURNS SETOF tasks
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE tasks
+  SET lease_agent_id = NULL,
+      lease_expires_at = NULL
+  WHERE lease_agent_id IS NOT NULL
+    AND lease_expires_at < now()
+    AND status <> 'in_progress';
+
+  RETURN QUERY
+  WITH expired AS (
+    SELECT id, assigned_agent_id, lease_agent_id
+    FROM tasks
+    WHERE lease_agent_id IS NOT NULL
+      AND lease_expires_at < now()
+      AND status = 'in_progress'
+    FOR UPDATE SKIP LOCKED
+  ), released AS (
+    UPDATE tasks t
+    SET status = 'todo',
+        assigned_agent_id = NULL,
+        lease_agent_id = NULL,
+        lease_expires_at = NULL,
+        updated_at = now()
+    FROM expired e
+    WHERE t.id = e.id
+    RETURNING t.*
+  ), logged AS (
+    INSERT INTO task_history (task_id, agent_id, action, note, changes)
+    SELECT e.id, e.lease_agent_id, 'lease_expired', 'Lease expired, task returned to the queue',
+      jsonb_build_object(
+        'status', jsonb_build_object('from', 'in_progress', 'to', 'todo'),
+        'assigned_agent_id', jsonb_build_object('from', e.assigned_agent_id, 'to', NULL)
+      )
+    FROM expired e
+  )
+  SELECT * FROM released;
+END;
+$$;
+
+-- Atomically lease the next eligible task to an agent. Eligible: backlog/todo,
+-- assigned to this agent or unassigned, not leased, no open dependencies and
+-- required capabilities covered by the agent. The agent's own tasks come
+-- first, then priority and board order. SKIP LOCKED lets concurrent claims
+-- pass each other instead of taking the same row.
+CREATE OR REPLACE FUNCTION claim_next_task(p_agent_id uuid, p_ttl_seconds integer)
+RETURNS SETOF tasks
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capabilities text[];
+  v_task_id uuid;
+BEGIN
+  PERFORM release_expired_leases();
+
+  SELECT coalesce(array_agg(lower(c)), '{}') INTO v_capabilities
+  FROM agents a, unnest(coalesce(a.capabilities, '{}')) AS c
+  WHERE a.id = p_agent_id;
+
+  SELECT t.id INTO v_task_id
+  FROM tasks t
+  WHERE t.status IN ('backlog', 'todo')
+    AND (t.assigned_agent_id = p_agent_id OR t.assigned_agent_id IS NULL)
+    AND t.lease_agent_id IS NULL
+    AND coalesce(t.required_capabilities, '{}') <@ v_capabilities
+    AND NOT EXISTS (
+      SELECT 1
+      FROM task_dependencies d
+      JOIN tasks b ON b.id = d.blocked_by_task_id
+      WHERE d.task_id = t.id AND b.status <> 'done'
+    )
+  ORDER BY
+    (t.assigned_agent_id = p_agent_id) DESC NULLS LAST,
+    CASE t.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+    t.position ASC NULLS LAST,
+    t.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF t SKIP LOCKED;
+
+  IF v_task_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE tasks
+  SET status = 'in_progress',
+      assigned_agent_id = p_agent_id,
+      lease_agent_id = p_agent_id,
+      lease_expires_at = now() + make_interval(secs => p_ttl_seconds),
+      updated_at = now()
+  WHERE id = v_task_id
+  RETURNING *;
+END;
+$$;
+
+-- Extend a lease the agent still holds. Never shortens it, so a renewal with a
+-- shorter ttl (e.g. a plain heartbeat) keeps a longer claim. Returns nothing if
+-- the lease was lost.
+CREATE OR REPLACE FUNCTION renew_task_lease(p_task_id uuid, p_agent_id uuid, p_ttl_seconds integer)
+RETURNS SETOF tasks
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE tasks
+  SET lease_expires_at = GREATEST(lease_expires_at, now() + make_interval(secs => p_ttl_seconds))
+  WHERE id = p_task_id
+    AND lease_agent_id = p_agent_id
+    AND lease_expires_at >= now()
+  RETURNING *;
+END;
+$$;
+
+-- Only the service role (API routes) may claim or release work
+REVOKE EXECUTE ON FUNCTION release_expired_leases() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_next_task(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION renew_task_lease(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Comment
+COMMENT ON COLUMN tasks.lease_agent_id IS 'Agent currently holding the work lease on this task (see claim_next_task)';
+COMMENT ON COLUMN tasks.lease_expires_at IS 'When the lease lapses and the task returns to the queue unless renewed';
@@ -0,0 +1,34 @@
+-- Migration 015: Agent heartbeats
+-- Rolling history of lightweight agent heartbeats (progress, current task, token usage, status text)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS agent_heartbeats (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent_id uuid NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  progress smallint CHECK (progress BETWEEN 0 AND 100),
+  tokens_used integer CHECK (tokens_used >= 0),
+  status_text text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Add index for the per-agent history and the latest-heartbeat view
+CREATE INDEX IF NOT EXISTS idx_agent_heartbeats_agent ON agent_heartbeats(agent_id, created_at DESC);
+
+-- Latest heartbeat of every agent
+CREATE OR REPLACE VIEW agent_latest_heartbeats AS
+SELECT DISTINCT ON (agent_id) *
+FROM agent_heartbeats
+ORDER BY agent_id, created_at DESC;
+
+-- RLS: same read access as agents, writes go through the service role
+ALTER TABLE agent_heartbeats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anon read access on agent_heartbeats"
+ON agent_heartbeats
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Comment
+COMMENT ON TABLE agent_heartbeats IS 'Heartbeats posted to /api/agents/heartbeat; only the most recent ones per agent are kept';
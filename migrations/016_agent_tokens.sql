@@ -0,0 +1,24 @@
+-- Migration 016: Agent API tokens
+-- Per-agent bearer tokens for the agent-facing API; only a SHA-256 hash of each token is stored
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS agent_tokens (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent_id uuid NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT 'default',
+  token_hash text NOT NULL UNIQUE,
+  -- First characters of the token, to tell tokens apart in the UI
+  token_prefix text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- Add index for listing an agent's tokens
+CREATE INDEX IF NOT EXISTS idx_agent_tokens_agent ON agent_tokens(agent_id, created_at DESC);
+
+-- RLS: no anon access at all; tokens are only read through the service role
+ALTER TABLE agent_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Comment
+COMMENT ON TABLE agent_tokens IS 'API tokens of agents (sha256 of the token); a token authenticates only its own agent_id';
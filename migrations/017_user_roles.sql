@@ -0,0 +1,141 @@
+-- Migration 017: Dashboard users and roles
+-- Supabase Auth users get a role (viewer < operator < admin); RLS lets only logged-in users read, and write by role
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Role of the current user; users without a row are viewers.
+-- SECURITY DEFINER so policies on user_roles itself can call it without recursion.
+CREATE OR REPLACE FUNCTION has_role(p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT array_position(ARRAY['viewer', 'operator', 'admin'],
+           coalesce((SELECT role FROM user_roles WHERE user_id = auth.uid()), 'viewer'))
+      >= array_position(ARRAY['viewer', 'operator', 'admin'], p_role);
+$$;
+
+-- RLS: users see their own role, admins manage everyone's
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own role"
+ON user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR has_role('admin'));
+
+CREATE POLICY "Admins manage roles"
+ON user_roles
+FOR ALL
+TO authenticated
+USING (has_role('admin'))
+WITH CHECK (has_role('admin'));
+
+-- Reads need a login: drop every anon read policy (002, 005-015 and the
+-- "Public ..." ones from scripts/) and let logged-in users read instead
+DO $$
+DECLARE
+  policy record;
+BEGIN
+  FOR policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public' AND cmd = 'SELECT' AND 'anon' = ANY(roles)
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', policy.policyname, policy.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE task_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_memory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cron_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cron_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  readable text;
+BEGIN
+  FOREACH readable IN ARRAY ARRAY[
+    'agents', 'tasks', 'task_dependencies', 'task_checklist_items', 'task_comments',
+    'task_templates', 'task_history', 'agent_heartbeats', 'agent_memory', 'cron_jobs', 'cron_runs'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Logged-in users read ' || readable, readable);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (true)', 'Logged-in users read ' || readable, readable);
+  END LOOP;
+END $$;
+
+-- The view would otherwise read agent_heartbeats with its owner's rights
+ALTER VIEW agent_latest_heartbeats SET (security_invoker = true);
+REVOKE SELECT ON agent_latest_heartbeats FROM anon;
+
+-- Operators change work: tasks and everything hanging off them
+CREATE POLICY "Operators write tasks"
+ON tasks
+FOR ALL
+TO authenticated
+USING (has_role('operator'))
+WITH CHECK (has_role('operator'));
+
+CREATE POLICY "Operators write task_dependencies"
+ON task_dependencies
+FOR ALL
+TO authenticated
+USING (has_role('operator'))
+WITH CHECK (has_role('operator'));
+
+CREATE POLICY "Operators write task_checklist_items"
+ON task_checklist_items
+FOR ALL
+TO authenticated
+USING (has_role('operator'))
+WITH CHECK (has_role('operator'));
+
+CREATE POLICY "Operators write task_comments"
+ON task_comments
+FOR ALL
+TO authenticated
+USING (has_role('operator'))
+WITH CHECK (has_role('operator'));
+
+CREATE POLICY "Operators write task_templates"
+ON task_templates
+FOR ALL
+TO authenticated
+USING (has_role('operator'))
+WITH CHECK (has_role('operator'));
+
+-- History is append-only for people too
+CREATE POLICY "Operators append task_history"
+ON task_history
+FOR INSERT
+TO authenticated
+WITH CHECK (has_role('operator'));
+
+-- Admins manage the agent roster and its API tokens
+CREATE POLICY "Admins write agents"
+ON agents
+FOR ALL
+TO authenticated
+USING (has_role('admin'))
+WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Admins read agent_tokens"
+ON agent_tokens
+FOR SELECT
+TO authenticated
+USING (has_role('admin'));
+
+REVOKE EXECUTE ON FUNCTION has_role(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_role(text) TO authenticated;
+
+-- Comment
+COMMENT ON TABLE user_roles IS 'Dashboard role per Supabase Auth user. Grant the first admin with: INSERT INTO user_roles (user_id, role) SELECT id, ''admin'' FROM auth.users WHERE email = ''you@example.com''';
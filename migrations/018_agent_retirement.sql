@@ -0,0 +1,12 @@
+-- Migration 018: Agent retirement
+-- Agents are retired (soft-deleted) instead of deleted, so their tasks, history and reports stay intact
+-- Date: 2026-10-19
+
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS retired_at timestamptz;
+
+-- Add index for listing active agents
+CREATE INDEX IF NOT EXISTS idx_agents_active ON agents(name) WHERE retired_at IS NULL;
+
+-- Comment
+COMMENT ON COLUMN agents.retired_at IS 'When the agent was retired; retired agents cannot wake, authenticate or be assigned work. NULL = active';
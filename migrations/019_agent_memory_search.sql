@@ -0,0 +1,51 @@
+-- Migration 019: Full-text search on agent memory
+-- Generated tsvector over report summaries and findings for the memory explorer
+-- Date: 2026-10-19
+
+-- Heartbeat reports store JSON in a text column and older rows hold plain
+-- text, so parsing must not fail the insert. Returns NULL for non-JSON content.
+CREATE OR REPLACE FUNCTION memory_report_text(content TEXT, field TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  value JSONB;
+BEGIN
+  value := content::jsonb -> field;
+  IF value IS NULL OR jsonb_typeof(value) = 'null' THEN
+    RETURN NULL;
+  ELSIF jsonb_typeof(value) = 'array' THEN
+    RETURN (SELECT string_agg(item, ' ') FROM jsonb_array_elements_text(value) AS item);
+  ELSIF jsonb_typeof(value) = 'string' THEN
+    RETURN value #>> '{}';
+  END IF;
+  RETURN value::text;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- 'simple' config: reports mix Portuguese and English, so no stemming.
+-- Plain-text memories (no JSON) are indexed as a whole at the lowest weight.
+ALTER TABLE agent_memory
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(memory_report_text(content, 'summary'), '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(memory_report_text(content, 'findings'), '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(memory_report_text(content, 'blockers'), '')), 'C') ||
+  setweight(to_tsvector('simple', CASE
+    WHEN memory_report_text(content, 'summary') IS NULL AND memory_report_text(content, 'findings') IS NULL
+    THEN coalesce(content, '')
+    ELSE ''
+  END), 'D')
+) STORED;
+
+-- Add index for full-text queries
+CREATE INDEX IF NOT EXISTS idx_agent_memory_search_vector ON agent_memory USING gin(search_vector);
+
+-- Add index for per-agent browsing and the previous-report lookup behind the diff view
+CREATE INDEX IF NOT EXISTS idx_agent_memory_agent_type_created ON agent_memory(agent_id, memory_type, created_at DESC);
+
+-- Comment
+COMMENT ON COLUMN agent_memory.search_vector IS 'Full-text index of report summary (A), findings (B), blockers (C) and plain-text content (D)';
@@ -0,0 +1,41 @@
+-- Migration 020: Agent blockers
+-- Blockers raised in heartbeat reports, tracked as open items until a later report drops them
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS agent_blockers (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent_id uuid NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  -- Normalised description; the same blocker across reports has the same fingerprint
+  fingerprint text NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  report_count integer NOT NULL DEFAULT 1,
+  first_reported_at timestamptz NOT NULL DEFAULT now(),
+  last_reported_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  -- 'report' when a later report stopped mentioning it, otherwise the operator name
+  resolved_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One open blocker per agent and fingerprint; resolved ones are kept as history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_blockers_open_fingerprint
+ON agent_blockers(agent_id, fingerprint)
+WHERE status = 'open';
+
+-- Add index for the Mission Control panel and per-task lookups
+CREATE INDEX IF NOT EXISTS idx_agent_blockers_status ON agent_blockers(status, last_reported_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_blockers_task ON agent_blockers(task_id) WHERE task_id IS NOT NULL;
+
+-- RLS: logged-in users read, same as agents (migration 017); writes go through the service role
+ALTER TABLE agent_blockers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Logged-in users read agent_blockers"
+ON agent_blockers
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Comment
+COMMENT ON TABLE agent_blockers IS 'Blockers from POST /api/agents/report, deduplicated by fingerprint and auto-resolved when no longer reported';
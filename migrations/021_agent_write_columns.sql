@@ -0,0 +1,50 @@
+-- Migration 021: Canonical columns for agent writes
+-- lib/agent-protocol.ts wrote task_history.details and agent_memory.session_type
+-- while the API wrote note and memory_type/key. Settles on the latter, which
+-- lib/agent-service.ts now uses everywhere, and carries over legacy values.
+-- Date: 2026-10-19
+
+ALTER TABLE task_history ADD COLUMN IF NOT EXISTS note text;
+
+ALTER TABLE agent_memory ADD COLUMN IF NOT EXISTS memory_type text;
+ALTER TABLE agent_memory ADD COLUMN IF NOT EXISTS key text;
+ALTER TABLE agent_memory ADD COLUMN IF NOT EXISTS content text;
+
+-- Carry over rows written through the legacy columns, where those exist
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'task_history' AND column_name = 'details'
+  ) THEN
+    UPDATE task_history
+    SET note = coalesce(details->>'reason', details->>'summary', details::text)
+    WHERE note IS NULL AND details IS NOT NULL AND details <> '{}'::jsonb;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'agent_memory' AND column_name = 'session_type'
+  ) THEN
+    UPDATE agent_memory
+    SET memory_type = session_type
+    WHERE memory_type IS NULL AND session_type IS NOT NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'agent_memory' AND column_name = 'value'
+  ) THEN
+    UPDATE agent_memory
+    SET content = value::text
+    WHERE content IS NULL AND value IS NOT NULL;
+  END IF;
+END $$;
+
+-- Entries without a type predate memory_type; the explorer files them as notes
+UPDATE agent_memory SET memory_type = 'note' WHERE memory_type IS NULL;
+
+-- Comment
+COMMENT ON COLUMN task_history.note IS 'Free-text description of the event (reasons, summaries); agent writes never use details';
+COMMENT ON COLUMN agent_memory.memory_type IS 'Entry kind, e.g. heartbeat_report (POST /api/agents/report) or note (POST /api/agents/memory)';
+COMMENT ON COLUMN agent_memory.content IS 'Plain text, or a JSON string for heartbeat reports';
@@ -0,0 +1,30 @@
+-- Migration 022: Idempotency keys
+-- Responses of agent writes sent with an Idempotency-Key header, so a retried
+-- request replays the first response instead of running twice
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Route the key was used on, e.g. 'agents/report'
+  scope text NOT NULL,
+  key text NOT NULL,
+  -- NULL for dashboard users (POST /api/tasks)
+  agent_id uuid REFERENCES agents(id) ON DELETE CASCADE,
+  -- sha256 of the request body; the same key with another body is rejected
+  request_hash text NOT NULL,
+  -- NULL while the first request is still running
+  status_code smallint,
+  response jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Keys are per agent, so two agents picking the same key never collide
+  UNIQUE NULLS NOT DISTINCT (scope, agent_id, key)
+);
+
+-- Add index for purging expired keys
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+
+-- RLS: enabled with no policies; only the service role reads or writes keys
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Comment
+COMMENT ON TABLE idempotency_keys IS 'Stored responses for Idempotency-Key requests (lib/idempotency.ts); rows older than 24h are ignored and may be deleted';
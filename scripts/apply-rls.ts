@@ -25,13 +25,6 @@ const rlsSQL = `
 -- Enable RLS on agents table
 ALTER TABLE agents ENABLE ROW LEVEL SECURITY;
 
--- Allow anon users to read all agents
-CREATE POLICY IF NOT EXISTS "Allow anon read access on agents"
-ON agents
-FOR SELECT
-TO anon
-USING (true);
-
 -- Allow authenticated users to read all agents
 CREATE POLICY IF NOT EXISTS "Allow authenticated read access on agents"
 ON agents
@@ -42,13 +35,6 @@ USING (true);
 -- Enable RLS on tasks table
 ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
 
--- Allow anon users to read all tasks
-CREATE POLICY IF NOT EXISTS "Allow anon read access on tasks"
-ON tasks
-FOR SELECT
-TO anon
-USING (true);
-
 -- Allow authenticated users to read all tasks
 CREATE POLICY IF NOT EXISTS "Allow authenticated read access on tasks"
 ON tasks
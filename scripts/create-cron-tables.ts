@@ -103,17 +103,19 @@ alter table cron_runs enable row level security;
 do $$ begin
   drop policy if exists "Public cron_jobs read access" on cron_jobs;
   drop policy if exists "Public cron_runs read access" on cron_runs;
+  drop policy if exists "Logged-in users read cron_jobs" on cron_jobs;
+  drop policy if exists "Logged-in users read cron_runs" on cron_runs;
 end $$;
 
--- Create policies
-create policy "Public cron_jobs read access"
+-- Create policies (logged-in dashboard users only, see migration 017)
+create policy "Logged-in users read cron_jobs"
 on cron_jobs for select
-to anon, authenticated
+to authenticated
 using (true);
 
-create policy "Public cron_runs read access"
+create policy "Logged-in users read cron_runs"
 on cron_runs for select
-to anon, authenticated
+to authenticated
 using (true);
 `;
 
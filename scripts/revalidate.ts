@@ -0,0 +1,57 @@
+/**
+ * revalidate.ts
+ *
+ * Description: Sends a signed revalidation request to the dashboard, for
+ *   writes made outside its API (SQL, other services).
+ * Usage: npx tsx scripts/revalidate.ts [--tag tasks] [--tag agents] [--path /tasks]
+ * Env: REVALIDATION_SECRET, DASHBOARD_URL (default http://localhost:3000)
+ */
+
+import './env-loader';
+import { signRevalidation } from '../lib/revalidation';
+
+function collect(flag: string): string[] {
+  const values: string[] = [];
+  process.argv.forEach((arg, i) => {
+    if (arg === flag && process.argv[i + 1]) values.push(process.argv[i + 1]);
+  });
+  return values;
+}
+
+async function main() {
+  const secret = process.env.REVALIDATION_SECRET;
+  if (!secret) {
+    console.error('❌ REVALIDATION_SECRET is not set');
+    process.exit(1);
+  }
+
+  const tags = collect('--tag');
+  const paths = collect('--path');
+  const body = JSON.stringify(tags.length === 0 && paths.length === 0
+    ? { tags: ['tasks', 'agents'] }
+    : { tags, paths });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const baseUrl = process.env.DASHBOARD_URL || 'http://localhost:3000';
+
+  const res = await fetch(`${baseUrl}/api/revalidate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Revalidate-Timestamp': String(timestamp),
+      'X-Revalidate-Signature': signRevalidation(body, timestamp, secret)
+    },
+    body
+  });
+
+  const result = await res.json();
+  if (!res.ok) {
+    console.error(`❌ ${res.status}: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ Revalidated ${JSON.stringify(result)}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * sync-board.ts
+ *
+ * Description: Syncs Supabase tasks with board/TASKS.md in both directions.
+ *   export  - Writes the Supabase board to TASKS.md (with a synced-at marker)
+ *   import  - Applies TASKS.md to Supabase, then re-exports so the file and
+ *             the marker are current. Stops on conflicts unless --force.
+ *   check   - Verifies that exporting and importing straight back changes
+ *             nothing, for the built-in edge cases and the live board.
+ * Usage: npx tsx scripts/sync-board.ts <export|import|check> [--dry-run] [--force]
+ */
+
+import './env-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BoardTaskRow, checkBoard, checkBoardRoundTrip, exportBoard, importBoard } from '../lib/board-sync';
+import { BOARD_PATH } from '../lib/tasks';
+
+const command = process.argv[2];
+const isDryRun = process.argv.includes('--dry-run');
+const isForce = process.argv.includes('--force');
+
+async function runExport() {
+  const markdown = await exportBoard();
+
+  if (isDryRun) {
+    console.log(markdown);
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(BOARD_PATH), { recursive: true });
+  fs.writeFileSync(BOARD_PATH, markdown);
+  console.log(`✅ Exported board to ${BOARD_PATH}`);
+}
+
+async function runImport() {
+  if (!fs.existsSync(BOARD_PATH)) {
+    console.error(`❌ Board file not found at ${BOARD_PATH}`);
+    process.exit(1);
+  }
+
+  const result = await importBoard(fs.readFileSync(BOARD_PATH, 'utf8'), {
+    dryRun: isDryRun,
+    force: isForce,
+    actor: 'sync-board'
+  });
+
+  console.log(`Synced at: ${result.syncedAt || '(no marker)'}`);
+  result.create.forEach(t => console.log(`  + [${t.status}] ${t.title}`));
+  result.update.forEach(c => console.log(`  ~ ${c.title}: ${Object.keys(c.changes).join(', ')}`));
+  result.missing.forEach(title => console.log(`  ? ${title} (not in file, left as is)`));
+  result.warnings.forEach(w => console.warn(`⚠️ ${w}`));
+
+  if (result.conflicts.length > 0) {
+    console.error(`\n❌ ${result.conflicts.length} conflict(s), nothing was imported:`);
+    result.conflicts.forEach(c => console.error(`  ! ${c.title}: ${c.reason}`));
+    console.error('Re-export to pick up the Supabase changes, or re-run with --force to let the file win.');
+    process.exit(1);
+  }
+
+  if (!result.applied) {
+    console.log('\n[DRY RUN] Nothing was written');
+    return;
+  }
+
+  console.log(`\n✅ Imported ${result.create.length} new and ${result.update.length} changed task(s)`);
+  await runExport();
+}
+
+// Titles the markdown format has to escape or otherwise gets wrong
+const ROUND_TRIP_CASES: [title: string, owner: string | null][] = [
+  ['Fix login (urgent)', null],
+  ['Fix signup (urgent)', 'Pulse'],
+  ['Ship v2 (phase 1) docs', null],
+  ['Call (a)(b)', null],
+  ['Plain task', 'Pulse'],
+];
+
+async function runCheck() {
+  const agents = [{ id: 'agent-pulse', name: 'Pulse' }];
+  const tasks: BoardTaskRow[] = ROUND_TRIP_CASES.map(([title, owner], i) => ({
+    id: `case-${i}`,
+    title,
+    status: 'backlog',
+    assigned_agent_id: owner ? 'agent-pulse' : null,
+    position: i,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  }));
+
+  const problems = [...checkBoardRoundTrip(tasks, agents), ...(await checkBoard())];
+  if (problems.length > 0) {
+    console.error(`❌ ${problems.length} round-trip problem(s):`);
+    problems.forEach(p => console.error(`  ! ${p}`));
+    process.exit(1);
+  }
+  console.log('✅ Board round-trips cleanly');
+}
+
+async function main() {
+  try {
+    if (command === 'export') {
+      await runExport();
+    } else if (command === 'import') {
+      await runImport();
+    } else if (command === 'check') {
+      await runCheck();
+    } else {
+      console.error('Usage: npx tsx scripts/sync-board.ts <export|import|check> [--dry-run] [--force]');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Sync failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
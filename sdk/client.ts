@@ -0,0 +1,235 @@
+import type {
+  ApiError,
+  CreateTaskRequest,
+  CreateTaskResponse,
+  CronRunRequest,
+  CronRunResponse,
+  MemoryEntryResponse,
+  MemoryRequest,
+  ReportRequest,
+  ReportResponse,
+  TaskListQuery,
+  TaskListResponse,
+  UpdateTaskRequest,
+  UpdateTaskResponse,
+  WakeResponse
+} from '../lib/agent-api';
+
+// Typed client for the agent API. Runs anywhere with fetch (Node 18+, Deno,
+// edge runtimes) and has no runtime dependency on the dashboard code; the
+// request/response types come from lib/agent-api.ts.
+
+export interface AgentClientOptions {
+  // Dashboard URL, e.g. https://amplify.example.com
+  baseUrl: string;
+  agentId: string;
+  agentName: string;
+  // API token issued on /agents/[id]
+  token: string;
+  // Attempts after the first one for network errors, 408, 425, 429 and 5xx
+  retries?: number;
+  // First backoff delay; doubles on every retry (plus jitter)
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+// Report fields the session callback fills in while it works
+export type SessionReport = Omit<ReportRequest, 'agentId' | 'cronStartedAt'> & {
+  findings: string[];
+  blockers: NonNullable<ReportRequest['blockers']>;
+  tasksCompleted: string[];
+  tasksStarted: string[];
+  checklistCompleted: string[];
+};
+
+export interface SessionContext {
+  client: AgentClient;
+  wake: WakeResponse;
+  report: SessionReport;
+}
+
+export interface SessionResult<T> {
+  value: T;
+  report: ReportResponse;
+}
+
+export interface RequestOptions {
+  // Overrides the generated key, e.g. to make a retried job replay its own run
+  idempotencyKey?: string;
+}
+
+export type AgentClient = ReturnType<typeof createAgentClient>;
+
+export class AgentApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, body: unknown) {
+    const message = body && typeof body === 'object' && 'error' in body
+      ? String((body as ApiError).error)
+      : `Request failed with status ${status}`;
+    super(message);
+    this.name = 'AgentApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After in seconds (HTTP dates are rare enough to fall back to backoff)
+function retryAfterMs(response: Response): number | null {
+  const value = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(value) && value >= 0 ? value * 1000 : null;
+}
+
+function newIdempotencyKey(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function createAgentClient(options: AgentClientOptions) {
+  const {
+    agentId,
+    agentName,
+    token,
+    retries = 3,
+    retryDelayMs = 500,
+    timeoutMs = 30_000
+  } = options;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const fetchImpl = options.fetch || globalThis.fetch;
+
+  // One idempotency key per call, reused by every retry of that call, so a
+  // write whose response was lost is not applied twice
+  async function request<T>(method: string, path: string, body?: unknown, requestOptions: RequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (method !== 'GET') headers['Idempotency-Key'] = requestOptions.idempotencyKey || newIdempotencyKey();
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let response: Response;
+      try {
+        response = await fetchImpl(`${baseUrl}${path}`, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (error) {
+        if (attempt >= retries) throw error;
+        await sleep(retryDelayMs * 2 ** attempt * (1 + Math.random() / 2));
+        continue;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const data = await response.json().catch(() => null);
+      if (response.ok) return data as T;
+
+      // 409 on a keyed write means the first attempt is still running; wait for it
+      const inProgress = response.status === 409 && headers['Idempotency-Key'] && data?.error?.includes('in progress');
+      if (attempt < retries && (RETRYABLE_STATUSES.includes(response.status) || inProgress)) {
+        await sleep(retryAfterMs(response) ?? retryDelayMs * 2 ** attempt * (1 + Math.random() / 2));
+        continue;
+      }
+      throw new AgentApiError(response.status, data);
+    }
+  }
+
+  // format=page: without filters the route would answer in the legacy grouped shape
+  function query(params: TaskListQuery): string {
+    const search = new URLSearchParams({ format: 'page' });
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === null) continue;
+      search.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+    return `?${search}`;
+  }
+
+  const client = {
+    agentId,
+
+    wake(requestOptions?: RequestOptions) {
+      return request<WakeResponse>('POST', '/api/agents/wake', { agentId, agentName }, requestOptions);
+    },
+
+    report(report: Omit<ReportRequest, 'agentId'>, requestOptions?: RequestOptions) {
+      return request<ReportResponse>('POST', '/api/agents/report', { ...report, agentId }, requestOptions);
+    },
+
+    saveMemory(memory: Omit<MemoryRequest, 'agentId'>, requestOptions?: RequestOptions) {
+      return request<MemoryEntryResponse>('POST', '/api/agents/memory', { ...memory, agentId }, requestOptions);
+    },
+
+    recordCronRun(run: CronRunRequest, requestOptions?: RequestOptions) {
+      return request<CronRunResponse>('POST', '/api/cron/runs', run, requestOptions);
+    },
+
+    listTasks(params: TaskListQuery = {}) {
+      return request<TaskListResponse>('GET', `/api/tasks${query(params)}`);
+    },
+
+    createTask(task: Omit<CreateTaskRequest, 'agentId'>, requestOptions?: RequestOptions) {
+      return request<CreateTaskResponse>('POST', '/api/tasks', { ...task, agentId }, requestOptions);
+    },
+
+    updateTask(update: Omit<UpdateTaskRequest, 'agentId'>, requestOptions?: RequestOptions) {
+      return request<UpdateTaskResponse>('PATCH', '/api/tasks', { ...update, agentId }, requestOptions);
+    },
+
+    /**
+     * Wakes the agent, runs fn and always reports, even when fn throws. fn
+     * fills in context.report (findings, blockers, tasks...) as it works; a
+     * string it returns becomes the summary unless one was set. When fn
+     * throws, the report says so, lists the error as a blocker and the error
+     * is rethrown after reporting; if that report fails too, an
+     * AggregateError carries both errors.
+     */
+    async session<T>(fn: (context: SessionContext) => Promise<T> | T): Promise<SessionResult<T>> {
+      const startedAt = new Date().toISOString();
+      const wake = await client.wake();
+      const report: SessionReport = {
+        summary: '',
+        findings: [],
+        blockers: [],
+        tasksCompleted: [],
+        tasksStarted: [],
+        checklistCompleted: []
+      };
+
+      let value: T;
+      try {
+        value = await fn({ client, wake, report });
+      } catch (error) {
+        try {
+          await client.report({
+            ...report,
+            summary: report.summary || `Session error: ${errorMessage(error)}`,
+            blockers: [...report.blockers, `Session error: ${errorMessage(error)}`],
+            cronStartedAt: startedAt
+          });
+        } catch (reportError) {
+          throw new AggregateError([error, reportError], `Session failed and could not be reported: ${errorMessage(error)}`);
+        }
+        throw error;
+      }
+
+      const summary = report.summary || (typeof value === 'string' ? value : 'Session completed');
+      const result = await client.report({ ...report, summary, cronStartedAt: startedAt });
+      return { value, report: result };
+    }
+  };
+
+  return client;
+}
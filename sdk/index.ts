@@ -0,0 +1,20 @@
+// Agent SDK: typed client for the dashboard's agent API.
+//
+//   import { createAgentClient } from './sdk';
+//
+//   const agent = createAgentClient({ baseUrl, agentId, agentName, token });
+//   await agent.session(async ({ wake, report }) => {
+//     for (const task of wake.tasks) { ...; report.tasksCompleted.push(task.id); }
+//     return 'Processed the queue';
+//   });
+
+export { AgentApiError, createAgentClient } from './client';
+export type {
+  AgentClient,
+  AgentClientOptions,
+  RequestOptions,
+  SessionContext,
+  SessionReport,
+  SessionResult
+} from './client';
+export type * from '../lib/agent-api';